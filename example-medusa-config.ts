@@ -37,9 +37,6 @@ export default defineConfig({
 							// Required: Your Medusa backend URL for webhooks
 							medusaUrl: process.env.MEDUSA_BACKEND_URL || "http://localhost:9000",
 
-							// Optional: Whether to automatically capture payments (default: true)
-							autoCapture: process.env.SUMUP_AUTO_CAPTURE !== "false",
-
 							// Optional: Default description for payments
 							description: process.env.SUMUP_DESCRIPTION || "Payment via Your Store",
 
@@ -53,9 +50,44 @@ export default defineConfig({
 							host: process.env.SUMUP_API_HOST,
 
 							// Optional: Additional fetch parameters for SDK requests
-							baseParams: {
-								timeout: parseInt(process.env.SUMUP_REQUEST_TIMEOUT || "30000"),
-							},
+							baseParams: {},
+
+							// Optional: Request timeout in milliseconds (default: 15000)
+							requestTimeout: parseInt(process.env.SUMUP_REQUEST_TIMEOUT || "15000"),
+
+							// Optional: Retries of safe requests and their backoff (defaults: 2, 200ms, 5000ms)
+							maxRetries: 2,
+							retryBaseDelay: 200,
+							retryMaxDelay: 5000,
+
+							// Optional: Stop calling SumUp for 30s after 5 consecutive failures
+							circuitBreakerThreshold: 5,
+							circuitBreakerCooldown: 30000,
+
+							// Optional: How long the merchant profile is cached in milliseconds (default: 1 hour)
+							merchantProfileTtl: 60 * 60 * 1000,
+
+							// Optional: How long available payment methods are cached in milliseconds (default: 1 minute)
+							paymentMethodsTtl: 60 * 1000,
+
+							// Optional: Register the provider's webhook with SumUp on startup (default: false)
+							registerWebhook: process.env.SUMUP_REGISTER_WEBHOOK === "true",
+
+							// Optional: Secret used to verify webhook signatures
+							webhookSecret: process.env.SUMUP_WEBHOOK_SECRET,
+
+							// Optional: Re-fetch the checkout from SumUp to confirm webhook events (default: false)
+							verifyWebhookWithApi: true,
+
+							// Optional: Google Pay merchant id (required for Google Pay in live mode) and display name
+							googlePayMerchantId: process.env.GOOGLE_PAY_MERCHANT_ID,
+							googlePayMerchantName: "Your Store",
+
+							// Optional: What cancelling a captured payment does, "refund" or "fail" (default: "refund")
+							cancelPolicy: "refund",
+
+							// Optional: How long a checkout can be paid for in milliseconds (default: 1 hour)
+							checkoutLifetime: 60 * 60 * 1000,
 						},
 					},
 
@@ -81,10 +113,12 @@ SUMUP_API_KEY=sup_sk_your_secret_key_here
 SUMUP_MERCHANT_CODE=MC123456
 SUMUP_REDIRECT_URL=https://your-storefront.com/order/confirmed
 SUMUP_DESCRIPTION=Payment via Your Amazing Store
-SUMUP_AUTO_CAPTURE=true
 SUMUP_ENVIRONMENT=test
 SUMUP_API_HOST=https://api.sumup.com
-SUMUP_REQUEST_TIMEOUT=30000
+SUMUP_REQUEST_TIMEOUT=15000
+SUMUP_REGISTER_WEBHOOK=true
+SUMUP_WEBHOOK_SECRET=your_webhook_secret_here
+GOOGLE_PAY_MERCHANT_ID=your_google_pay_merchant_id
 
 # Medusa Backend URL
 MEDUSA_BACKEND_URL=https://your-backend.com
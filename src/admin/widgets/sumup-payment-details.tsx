@@ -0,0 +1,176 @@
+import { defineWidgetConfig } from "@medusajs/admin-sdk";
+import type { AdminOrder, DetailWidgetProps } from "@medusajs/framework/types";
+import { Badge, Button, Container, Heading, Table, Text, toast } from "@medusajs/ui";
+import { useCallback, useEffect, useState } from "react";
+import type { SumUpPaymentDetails } from "../../providers/sumup/types";
+
+type SumUpPaymentState = {
+	details?: SumUpPaymentDetails;
+	error?: string;
+	loading: boolean;
+};
+
+/**
+ * Calls an admin SumUp payment route and returns the payment details it responds with
+ */
+async function requestDetails(paymentId: string, action?: "refresh" | "deactivate"): Promise<SumUpPaymentDetails> {
+	const response = await fetch(`/admin/sumup/payments/${paymentId}${action ? `/${action}` : ""}`, {
+		method: action ? "POST" : "GET",
+		credentials: "include",
+	});
+	const body = await response.json();
+
+	if (!response.ok) {
+		throw new Error(body.message || `Request failed with status ${response.status}`);
+	}
+
+	return body.sumup;
+}
+
+/**
+ * Shows SumUp's side of a payment, with actions to refresh it and deactivate an unpaid checkout
+ */
+const SumUpPaymentCard = ({ paymentId }: { paymentId: string }) => {
+	const [state, setState] = useState<SumUpPaymentState>({ loading: true });
+
+	const load = useCallback(async (action?: "refresh" | "deactivate") => {
+		setState((current) => ({ ...current, loading: true }));
+
+		try {
+			const details = await requestDetails(paymentId, action);
+			setState({ details, loading: false });
+
+			if (action) {
+				toast.success(action === "refresh" ? "Status refreshed from SumUp" : "Checkout deactivated");
+			}
+		} catch (error) {
+			setState((current) => ({ ...current, error: error.message, loading: false }));
+
+			if (action) {
+				toast.error(error.message);
+			}
+		}
+	}, [paymentId]);
+
+	useEffect(() => {
+		load();
+	}, [load]);
+
+	const { details, error, loading } = state;
+	const events = details?.transactions.flatMap((transaction) =>
+		(transaction.events || []).map((event) => ({ ...event, transaction_code: transaction.transaction_code }))
+	) || [];
+
+	return (
+		<div className="flex flex-col gap-y-4 px-6 py-4">
+			<div className="flex items-center justify-between">
+				<div className="flex items-center gap-x-2">
+					<Text size="small" weight="plus">{details?.checkout.checkout_reference || paymentId}</Text>
+					{details && <Badge size="2xsmall">{details.checkout.status}</Badge>}
+					{details && <Badge size="2xsmall" color="blue">{details.status}</Badge>}
+				</div>
+				<div className="flex gap-x-2">
+					<Button size="small" variant="secondary" isLoading={loading} onClick={() => load("refresh")}>
+						Refresh status from SumUp
+					</Button>
+					{details?.checkout.status === "PENDING" && (
+						<Button size="small" variant="danger" disabled={loading} onClick={() => load("deactivate")}>
+							Deactivate checkout
+						</Button>
+					)}
+				</div>
+			</div>
+
+			{error && <Text size="small" className="text-ui-fg-error">{error}</Text>}
+
+			{details && (
+				<>
+					<Text size="small" className="text-ui-fg-subtle">
+						Checkout {details.checkout.id} · {details.checkout.amount} {details.checkout.currency}
+						{details.settlement &&
+							` · Fee ${details.settlement.fee_amount}, net ${details.settlement.net_amount}, paid out ${details.settlement.payout_date}`}
+					</Text>
+
+					<Table>
+						<Table.Header>
+							<Table.Row>
+								<Table.HeaderCell>Transaction</Table.HeaderCell>
+								<Table.HeaderCell>Status</Table.HeaderCell>
+								<Table.HeaderCell>Card</Table.HeaderCell>
+								<Table.HeaderCell>Auth code</Table.HeaderCell>
+								<Table.HeaderCell>Entry mode</Table.HeaderCell>
+								<Table.HeaderCell>Amount</Table.HeaderCell>
+							</Table.Row>
+						</Table.Header>
+						<Table.Body>
+							{details.transactions.map((transaction) => (
+								<Table.Row key={transaction.id}>
+									<Table.Cell>{transaction.transaction_code}</Table.Cell>
+									<Table.Cell>{transaction.status}</Table.Cell>
+									<Table.Cell>
+										{transaction.card ? `${transaction.card.type} •••• ${transaction.card.last_4_digits}` : "-"}
+									</Table.Cell>
+									<Table.Cell>{transaction.auth_code || "-"}</Table.Cell>
+									<Table.Cell>{transaction.entry_mode || "-"}</Table.Cell>
+									<Table.Cell>{transaction.amount} {transaction.currency}</Table.Cell>
+								</Table.Row>
+							))}
+						</Table.Body>
+					</Table>
+
+					{details.refunds.length > 0 && (
+						<div className="flex flex-col gap-y-1">
+							<Text size="small" weight="plus">Refunds</Text>
+							{details.refunds.map((refund, index) => (
+								<Text key={refund.refund_id || index} size="small" className="text-ui-fg-subtle">
+									{refund.created_at} · {refund.amount} {refund.currency} · {refund.status}
+								</Text>
+							))}
+						</div>
+					)}
+
+					{events.length > 0 && (
+						<div className="flex flex-col gap-y-1">
+							<Text size="small" weight="plus">Events</Text>
+							{events.map((event) => (
+								<Text key={`${event.transaction_code}-${event.id}`} size="small" className="text-ui-fg-subtle">
+									{event.timestamp} · {event.transaction_code} · {event.type} · {event.status} · {event.amount}
+								</Text>
+							))}
+						</div>
+					)}
+				</>
+			)}
+		</div>
+	);
+};
+
+/**
+ * Order page widget listing the SumUp details of the order's payments
+ */
+const SumUpPaymentDetailsWidget = ({ data: order }: DetailWidgetProps<AdminOrder>) => {
+	const payments = (order.payment_collections || [])
+		.flatMap((collection) => collection.payments || [])
+		.filter((payment) => payment.provider_id.endsWith("_sumup"));
+
+	if (!payments.length) {
+		return null;
+	}
+
+	return (
+		<Container className="divide-y p-0">
+			<div className="px-6 py-4">
+				<Heading level="h2">SumUp</Heading>
+			</div>
+			{payments.map((payment) => (
+				<SumUpPaymentCard key={payment.id} paymentId={payment.id} />
+			))}
+		</Container>
+	);
+};
+
+export const config = defineWidgetConfig({
+	zone: "order.details.after",
+});
+
+export default SumUpPaymentDetailsWidget;
@@ -0,0 +1,12 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http";
+import { resolveSumUpProvider } from "../../../../providers/sumup/core/resolve-provider";
+import { PaymentProviderKeys } from "../../../../providers/sumup/types";
+
+/**
+ * Lists the currencies SumUp can charge, so regions can be checked before shoppers reach checkout
+ */
+export const GET = async (req: MedusaRequest, res: MedusaResponse) => {
+	const provider = resolveSumUpProvider(req.scope, PaymentProviderKeys.SUMUP_HOSTED_CHECKOUT);
+
+	res.json({ currencies: provider.getSupportedCurrencies() });
+};
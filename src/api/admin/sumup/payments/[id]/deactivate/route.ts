@@ -0,0 +1,15 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http";
+import { retrieveSumUpPayment, saveSumUpPaymentData } from "../../helpers";
+
+/**
+ * Deactivates the SumUp checkout of a payment or payment session that wasn't paid,
+ * so the shopper can't pay it anymore. Payment sessions are canceled.
+ */
+export const POST = async (req: MedusaRequest, res: MedusaResponse) => {
+	const payment = await retrieveSumUpPayment(req.scope, req.params.id);
+	const { status, data = payment.data } = await payment.provider.deactivatePaymentCheckout(payment.data);
+
+	await saveSumUpPaymentData(req.scope, payment, data, status);
+
+	res.json({ sumup: await payment.provider.getPaymentDetails(data) });
+};
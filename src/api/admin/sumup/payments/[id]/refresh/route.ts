@@ -0,0 +1,15 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http";
+import { retrieveSumUpPayment, saveSumUpPaymentData } from "../../helpers";
+
+/**
+ * Refreshes the checkout status, transactions and pending refunds stored on a
+ * payment or payment session from SumUp
+ */
+export const POST = async (req: MedusaRequest, res: MedusaResponse) => {
+	const payment = await retrieveSumUpPayment(req.scope, req.params.id);
+	const { data = payment.data } = await payment.provider.retrievePayment({ data: payment.data });
+
+	await saveSumUpPaymentData(req.scope, payment, data);
+
+	res.json({ sumup: await payment.provider.getPaymentDetails(data) });
+};
@@ -0,0 +1,12 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http";
+import { retrieveSumUpPayment } from "../helpers";
+
+/**
+ * Returns what SumUp knows about a payment or payment session: the live checkout,
+ * its transactions with card, auth code, entry mode and events, refunds and payout
+ */
+export const GET = async (req: MedusaRequest, res: MedusaResponse) => {
+	const payment = await retrieveSumUpPayment(req.scope, req.params.id);
+
+	res.json({ sumup: await payment.provider.getPaymentDetails(payment.data) });
+};
@@ -0,0 +1,87 @@
+import type {
+	BigNumberInput,
+	MedusaContainer,
+	PaymentSessionStatus,
+} from "@medusajs/framework/types";
+import { MedusaError, Modules } from "@medusajs/framework/utils";
+import { mergePaymentData } from "../../../../providers/sumup/core/payment-data";
+import {
+	getSumUpIdentifier,
+	resolveSumUpProvider,
+} from "../../../../providers/sumup/core/resolve-provider";
+import type SumUpBase from "../../../../providers/sumup/core/sumup-base";
+
+/**
+ * A Medusa payment, or a payment session that wasn't authorized yet, made through SumUp
+ */
+export type SumUpPaymentRecord = {
+	id: string;
+	type: "payment" | "payment_session";
+	provider: SumUpBase;
+	amount: BigNumberInput;
+	currency_code: string;
+	data: Record<string, unknown>;
+};
+
+/**
+ * Retrieves a payment, or a payment session when given a `payses_` id, with its SumUp provider
+ * @throws {MedusaError} If it wasn't made through SumUp
+ */
+export async function retrieveSumUpPayment(
+	container: MedusaContainer,
+	id: string
+): Promise<SumUpPaymentRecord> {
+	const paymentModule = container.resolve(Modules.PAYMENT);
+	const type = id.startsWith("payses_") ? "payment_session" : "payment";
+
+	const payment = type === "payment_session"
+		? await paymentModule.retrievePaymentSession(id)
+		: await paymentModule.retrievePayment(id, {
+			select: ["id", "provider_id", "amount", "currency_code", "data"],
+		});
+
+	const identifier = getSumUpIdentifier(payment.provider_id);
+
+	if (!identifier) {
+		throw new MedusaError(
+			MedusaError.Types.INVALID_DATA,
+			`${id} was not made through a SumUp payment provider`
+		);
+	}
+
+	return {
+		id,
+		type,
+		provider: resolveSumUpProvider(container, identifier),
+		amount: payment.amount,
+		currency_code: payment.currency_code,
+		data: payment.data || {},
+	};
+}
+
+/**
+ * Stores updated SumUp data on the payment or payment session. Payment data is merged
+ * into the stored data, keeping fields like `settlement` written since it was retrieved.
+ * @param status - The new status of a payment session
+ */
+export async function saveSumUpPaymentData(
+	container: MedusaContainer,
+	payment: SumUpPaymentRecord,
+	data: Record<string, unknown>,
+	status?: PaymentSessionStatus
+): Promise<void> {
+	const paymentModule = container.resolve(Modules.PAYMENT);
+
+	if (payment.type === "payment_session") {
+		await paymentModule.updatePaymentSession({
+			id: payment.id,
+			amount: payment.amount,
+			currency_code: payment.currency_code,
+			data,
+			status,
+		});
+		return;
+	}
+
+	await mergePaymentData(paymentModule, payment.id, data);
+}
@@ -0,0 +1,73 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http";
+import { MedusaError } from "@medusajs/framework/utils";
+import { listCapturedSumUpPayments } from "../../../../providers/sumup/core/captured-payments";
+import { groupPayouts } from "../../../../providers/sumup/core/payouts";
+import { resolveSumUpProvider } from "../../../../providers/sumup/core/resolve-provider";
+import { PaymentProviderKeys } from "../../../../providers/sumup/types";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Longest period payouts can be listed for
+ */
+const MAX_PERIOD_DAYS = 90;
+
+/**
+ * How long before a payout the payments it contains can have been captured
+ */
+const SETTLEMENT_DAYS = 30;
+
+/**
+ * Lists the SumUp payouts of a period, by default the last 30 days, with the
+ * payment and order of each transaction, so margins can be computed per order
+ */
+export const GET = async (req: MedusaRequest, res: MedusaResponse) => {
+	const to = req.query.to ? new Date(req.query.to as string) : new Date();
+	const from = req.query.from ? new Date(req.query.from as string) : new Date(to.getTime() - 30 * DAY);
+
+	if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from >= to) {
+		throw new MedusaError(
+			MedusaError.Types.INVALID_DATA,
+			"from and to must be ISO 8601 dates, with from before to"
+		);
+	}
+
+	if (to.getTime() - from.getTime() > MAX_PERIOD_DAYS * DAY) {
+		throw new MedusaError(
+			MedusaError.Types.INVALID_DATA,
+			`Payouts can be listed for at most ${MAX_PERIOD_DAYS} days`
+		);
+	}
+
+	const provider = resolveSumUpProvider(req.scope, PaymentProviderKeys.SUMUP_HOSTED_CHECKOUT);
+	const payouts = groupPayouts(await provider.listPayouts(from, to));
+
+	const payments = await listCapturedSumUpPayments(
+		req.scope,
+		new Date(from.getTime() - SETTLEMENT_DAYS * DAY),
+		to
+	);
+
+	const byTransaction = new Map(
+		payments.flatMap((payment) => payment.transaction_codes.map((code) => [code, payment] as const))
+	);
+
+	res.json({
+		payouts: payouts.map(({ lines, ...payout }) => ({
+			...payout,
+			transactions: lines.map((line) => {
+				const payment = line.transaction_code ? byTransaction.get(line.transaction_code) : undefined;
+
+				return {
+					transaction_code: line.transaction_code,
+					type: line.type,
+					status: line.status,
+					amount: line.amount,
+					fee: line.fee,
+					payment_id: payment?.id,
+					order_id: payment?.order_id,
+				};
+			}),
+		})),
+	});
+};
@@ -0,0 +1,225 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http";
+import type { BigNumberInput } from "@medusajs/framework/types";
+import { ContainerRegistrationKeys, MathBN, MedusaError } from "@medusajs/framework/utils";
+import { toSumUpAmount } from "../../../../providers/sumup/core/amount";
+import { toSessionId } from "../../../../providers/sumup/core/checkout-reference";
+import {
+	ReconciliationPayment,
+	reconcileTransactions,
+	toReconciliationCsv,
+} from "../../../../providers/sumup/core/reconciliation";
+import {
+	getPaymentProviderId,
+	resolveSumUpProvider,
+} from "../../../../providers/sumup/core/resolve-provider";
+import { PaymentProviderKeys, SumUpTransaction } from "../../../../providers/sumup/types";
+
+/**
+ * Longest period a report can cover, as each day is listed from SumUp
+ */
+const MAX_PERIOD_DAYS = 31;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * A Medusa payment as queried for the report, with its captures and refunds
+ */
+type PaymentRow = {
+	id: string;
+	amount: BigNumberInput;
+	currency_code: string;
+	data: Record<string, unknown> | null;
+	payment_session_id: string;
+	payment_collection_id: string;
+	captures: { amount: BigNumberInput }[] | null;
+	refunds: { amount: BigNumberInput }[] | null;
+};
+
+type SessionRow = {
+	id: string;
+	amount: BigNumberInput;
+	currency_code: string;
+	data: Record<string, unknown> | null;
+	payment_collection_id: string;
+	payment: PaymentRow | null;
+};
+
+type OrderCollectionRow = {
+	order_id: string;
+	payment_collection_id: string;
+};
+
+/**
+ * A session or captured payment to report on
+ */
+type PaymentRecord = {
+	session_id: string;
+	payment_collection_id: string;
+	currency_code: string;
+	data: Record<string, unknown> | null;
+	payment: PaymentRow | null;
+};
+
+/**
+ * Reconciles SumUp transactions of a period, by default the previous UTC day, with
+ * Medusa payments. Pass `format=csv` to download the report as CSV.
+ */
+export const GET = async (req: MedusaRequest, res: MedusaResponse) => {
+	const { from, to } = parsePeriod(req.query.from as string | undefined, req.query.to as string | undefined);
+	const format = req.query.format === "csv" ? "csv" : "json";
+
+	const provider = resolveSumUpProvider(req.scope, PaymentProviderKeys.SUMUP_HOSTED_CHECKOUT);
+	const transactions = await provider.listTransactions(from, to);
+
+	const payments = await loadPayments(req, transactions, from, to);
+	const report = reconcileTransactions(transactions, payments, { from, to });
+
+	if (format === "csv") {
+		const filename = `sumup-reconciliation-${from.toISOString().slice(0, 10)}-${to.toISOString().slice(0, 10)}.csv`;
+
+		res.setHeader("Content-Type", "text/csv");
+		res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+		res.send(toReconciliationCsv(report));
+		return;
+	}
+
+	res.json({ report });
+};
+
+/**
+ * Parses the report period, defaulting to the previous UTC day
+ */
+function parsePeriod(fromParam?: string, toParam?: string): { from: Date; to: Date } {
+	const today = new Date();
+	today.setUTCHours(0, 0, 0, 0);
+
+	const from = fromParam ? new Date(fromParam) : new Date(today.getTime() - DAY);
+	const to = toParam ? new Date(toParam) : today;
+
+	if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+		throw new MedusaError(MedusaError.Types.INVALID_DATA, "from and to must be ISO 8601 dates");
+	}
+
+	if (from >= to) {
+		throw new MedusaError(MedusaError.Types.INVALID_DATA, "from must be before to");
+	}
+
+	if (to.getTime() - from.getTime() > MAX_PERIOD_DAYS * DAY) {
+		throw new MedusaError(
+			MedusaError.Types.INVALID_DATA,
+			`A report can cover at most ${MAX_PERIOD_DAYS} days`
+		);
+	}
+
+	return { from, to };
+}
+
+/**
+ * Loads the Medusa side of the report: the sessions the transactions reference and
+ * the SumUp payments captured in the period, with the orders they belong to
+ */
+async function loadPayments(
+	req: MedusaRequest,
+	transactions: SumUpTransaction[],
+	from: Date,
+	to: Date
+): Promise<ReconciliationPayment[]> {
+	const query = req.scope.resolve(ContainerRegistrationKeys.QUERY);
+
+	const sessionIds = [...new Set(
+		transactions
+			.map((transaction) => toSessionId(transaction.foreign_transaction_id))
+			.filter((id): id is string => !!id)
+	)];
+
+	const { data: sessions }: { data: SessionRow[] } = sessionIds.length
+		? await query.graph({
+			entity: "payment_session",
+			fields: [
+				"id",
+				"amount",
+				"currency_code",
+				"data",
+				"payment_collection_id",
+				"payment.id",
+				"payment.amount",
+				"payment.data",
+				"payment.payment_session_id",
+				"payment.payment_collection_id",
+				"payment.captures.amount",
+				"payment.refunds.amount",
+			],
+			filters: { id: sessionIds },
+		})
+		: { data: [] };
+
+	const { data: captured }: { data: PaymentRow[] } = await query.graph({
+		entity: "payment",
+		fields: [
+			"id",
+			"amount",
+			"currency_code",
+			"data",
+			"payment_session_id",
+			"payment_collection_id",
+			"captures.amount",
+			"refunds.amount",
+		],
+		filters: {
+			provider_id: Object.values(PaymentProviderKeys).map(getPaymentProviderId),
+			captured_at: { $gte: from.toISOString(), $lt: to.toISOString() },
+		},
+	});
+
+	const records: PaymentRecord[] = [
+		...sessions.map((session) => ({
+			session_id: session.id,
+			payment_collection_id: session.payment_collection_id,
+			currency_code: session.currency_code,
+			data: session.data,
+			payment: session.payment,
+		})),
+		...captured
+			.filter((payment) => !sessionIds.includes(payment.payment_session_id))
+			.map((payment) => ({
+				session_id: payment.payment_session_id,
+				payment_collection_id: payment.payment_collection_id,
+				currency_code: payment.currency_code,
+				data: payment.data,
+				payment,
+			})),
+	];
+
+	const collectionIds = [...new Set(records.map((record) => record.payment_collection_id).filter(Boolean))];
+	const { data: orderCollections }: { data: OrderCollectionRow[] } = collectionIds.length
+		? await query.graph({
+			entity: "order_payment_collection",
+			fields: ["order_id", "payment_collection_id"],
+			filters: { payment_collection_id: collectionIds },
+		})
+		: { data: [] };
+
+	const orders = new Map<string, string>(
+		orderCollections.map((link) => [link.payment_collection_id, link.order_id])
+	);
+
+	return records.map((record) => {
+		const data = { ...record.data, ...record.payment?.data };
+		const currency = record.currency_code.toUpperCase();
+		const sumupTransactions = (data.transactions || []) as SumUpTransaction[];
+		const captures = (record.payment?.captures || []).map((capture) => capture.amount);
+		const refunds = (record.payment?.refunds || []).map((refund) => refund.amount);
+
+		return {
+			session_id: record.session_id,
+			payment_id: record.payment?.id,
+			order_id: orders.get(record.payment_collection_id),
+			currency_code: currency,
+			amount: toSumUpAmount(record.payment?.amount ?? 0, currency),
+			captured_amount: toSumUpAmount(MathBN.sum(0, ...captures), currency),
+			refunded_amount: toSumUpAmount(MathBN.sum(0, ...refunds), currency),
+			transaction_ids: sumupTransactions.map((transaction) => transaction.id),
+			transaction_codes: sumupTransactions.map((transaction) => transaction.transaction_code),
+		};
+	});
+}
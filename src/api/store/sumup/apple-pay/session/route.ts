@@ -0,0 +1,54 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http";
+import { MedusaError, Modules } from "@medusajs/framework/utils";
+import {
+	getPaymentProviderId,
+	resolveSumUpProvider,
+} from "../../../../../providers/sumup/core/resolve-provider";
+import type SumUpApplePayService from "../../../../../providers/sumup/services/sumup-apple-pay";
+import { PaymentProviderKeys } from "../../../../../providers/sumup/types";
+
+type ApplePaySessionBody = {
+	payment_session_id: string;
+	validation_url: string;
+	domain: string;
+};
+
+/**
+ * Validates the Apple Pay merchant for a `sumup-apple-pay` payment session
+ */
+export const POST = async (
+	req: MedusaRequest<ApplePaySessionBody>,
+	res: MedusaResponse
+) => {
+	const { payment_session_id, validation_url, domain } = req.body ?? {};
+
+	if (!payment_session_id || !validation_url || !domain) {
+		throw new MedusaError(
+			MedusaError.Types.INVALID_DATA,
+			"payment_session_id, validation_url and domain are required"
+		);
+	}
+
+	const paymentModule = req.scope.resolve(Modules.PAYMENT);
+	const session = await paymentModule.retrievePaymentSession(payment_session_id);
+
+	if (session.provider_id !== getPaymentProviderId(PaymentProviderKeys.SUMUP_APPLE_PAY)) {
+		throw new MedusaError(
+			MedusaError.Types.INVALID_DATA,
+			"Payment session is not a SumUp Apple Pay session"
+		);
+	}
+
+	const provider = resolveSumUpProvider<SumUpApplePayService>(
+		req.scope,
+		PaymentProviderKeys.SUMUP_APPLE_PAY
+	);
+
+	const merchantSession = await provider.validateMerchant(
+		session.data?.id as string,
+		validation_url,
+		domain
+	);
+
+	res.json({ merchant_session: merchantSession });
+};
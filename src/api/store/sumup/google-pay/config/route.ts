@@ -0,0 +1,36 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http";
+import { MedusaError, Modules } from "@medusajs/framework/utils";
+import {
+	getPaymentProviderId,
+	resolveSumUpProvider,
+} from "../../../../../providers/sumup/core/resolve-provider";
+import type SumUpGooglePayService from "../../../../../providers/sumup/services/sumup-google-pay";
+import { PaymentProviderKeys } from "../../../../../providers/sumup/types";
+
+/**
+ * Returns the Google Pay `PaymentDataRequest` for a `sumup-google-pay` payment session
+ */
+export const GET = async (req: MedusaRequest, res: MedusaResponse) => {
+	const paymentSessionId = req.query.payment_session_id as string | undefined;
+
+	if (!paymentSessionId) {
+		throw new MedusaError(MedusaError.Types.INVALID_DATA, "payment_session_id is required");
+	}
+
+	const paymentModule = req.scope.resolve(Modules.PAYMENT);
+	const session = await paymentModule.retrievePaymentSession(paymentSessionId);
+
+	if (session.provider_id !== getPaymentProviderId(PaymentProviderKeys.SUMUP_GOOGLE_PAY)) {
+		throw new MedusaError(
+			MedusaError.Types.INVALID_DATA,
+			"Payment session is not a SumUp Google Pay session"
+		);
+	}
+
+	const provider = resolveSumUpProvider<SumUpGooglePayService>(
+		req.scope,
+		PaymentProviderKeys.SUMUP_GOOGLE_PAY
+	);
+
+	res.json({ payment_data_request: provider.getPaymentDataRequest(session.data ?? {}) });
+};
@@ -0,0 +1,52 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http";
+import { ContainerRegistrationKeys, MedusaError } from "@medusajs/framework/utils";
+import { isSupportedCurrency } from "../../../../providers/sumup/core/amount";
+import { isProviderAvailable } from "../../../../providers/sumup/core/available-methods";
+import {
+	getPaymentProviderId,
+	resolveSumUpProvider,
+} from "../../../../providers/sumup/core/resolve-provider";
+import { PaymentProviderKeys } from "../../../../providers/sumup/types";
+
+/**
+ * Lists the SumUp payment providers a cart can be paid with: those enabled in the
+ * cart's region whose payment method SumUp offers for the cart's total and currency
+ */
+export const GET = async (req: MedusaRequest, res: MedusaResponse) => {
+	const cartId = req.query.cart_id as string | undefined;
+
+	if (!cartId) {
+		throw new MedusaError(MedusaError.Types.INVALID_DATA, "cart_id is required");
+	}
+
+	const query = req.scope.resolve(ContainerRegistrationKeys.QUERY);
+	const { data: [cart] } = await query.graph({
+		entity: "cart",
+		fields: ["id", "total", "currency_code", "region.payment_providers.id"],
+		filters: { id: cartId },
+	});
+
+	if (!cart) {
+		throw new MedusaError(MedusaError.Types.NOT_FOUND, `Cart with id: ${cartId} was not found`);
+	}
+
+	if (!isSupportedCurrency(cart.currency_code)) {
+		res.json({ payment_providers: [], available_payment_methods: [] });
+		return;
+	}
+
+	const provider = resolveSumUpProvider(req.scope, PaymentProviderKeys.SUMUP_HOSTED_CHECKOUT);
+	const methods = await provider.getAvailablePaymentMethods(cart.total, cart.currency_code);
+
+	const regionProviders = cart.region?.payment_providers?.map((paymentProvider) => paymentProvider?.id);
+
+	const providers = Object.values(PaymentProviderKeys)
+		.filter((identifier) => isProviderAvailable(identifier, methods))
+		.map((identifier) => getPaymentProviderId(identifier))
+		.filter((id) => !regionProviders || regionProviders.includes(id));
+
+	res.json({
+		payment_providers: providers.map((id) => ({ id })),
+		available_payment_methods: methods,
+	});
+};
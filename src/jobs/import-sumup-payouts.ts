@@ -0,0 +1,71 @@
+import type { MedusaContainer } from "@medusajs/framework/types";
+import { ContainerRegistrationKeys, Modules } from "@medusajs/framework/utils";
+import { listCapturedSumUpPayments } from "../providers/sumup/core/captured-payments";
+import { mergePaymentData } from "../providers/sumup/core/payment-data";
+import { groupPayoutsByTransaction, toSettlement } from "../providers/sumup/core/payouts";
+import { resolveSumUpProvider } from "../providers/sumup/core/resolve-provider";
+import { PaymentProviderKeys, SumUpSettlement } from "../providers/sumup/types";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Days of payouts imported per run, so payouts missed by a failed run are picked up later
+ */
+const PAYOUT_DAYS = 7;
+
+/**
+ * How long after capture a payment can still be paid out
+ */
+const SETTLEMENT_DAYS = 30;
+
+/**
+ * Imports SumUp payouts and attaches the fee, net amount, payout id and payout date
+ * of each transaction to its Medusa payment's `settlement` data
+ */
+export default async function importSumUpPayouts(container: MedusaContainer) {
+	const logger = container.resolve(ContainerRegistrationKeys.LOGGER);
+	const paymentModule = container.resolve(Modules.PAYMENT);
+
+	const to = new Date();
+	const from = new Date(to.getTime() - PAYOUT_DAYS * DAY);
+
+	const provider = resolveSumUpProvider(container, PaymentProviderKeys.SUMUP_HOSTED_CHECKOUT);
+	const payoutsByTransaction = groupPayoutsByTransaction(await provider.listPayouts(from, to));
+
+	if (!payoutsByTransaction.size) {
+		return;
+	}
+
+	const payments = await listCapturedSumUpPayments(
+		container,
+		new Date(from.getTime() - SETTLEMENT_DAYS * DAY),
+		to
+	);
+
+	let imported = 0;
+
+	for (const payment of payments) {
+		const lines = payment.transaction_codes.flatMap((code) => payoutsByTransaction.get(code) || []);
+		const current = payment.data.settlement as SumUpSettlement | undefined;
+
+		if (!lines.length || current?.payouts.length === lines.length) {
+			continue;
+		}
+
+		try {
+			await mergePaymentData(paymentModule, payment.id, {
+				settlement: toSettlement(lines, payment.currency_code.toUpperCase()),
+			});
+			imported++;
+		} catch (error) {
+			logger.error(`Failed to import SumUp payout of payment ${payment.id}: ${error.message}`);
+		}
+	}
+
+	logger.info(`Imported SumUp payouts of ${imported} payments`);
+}
+
+export const config = {
+	name: "import-sumup-payouts",
+	schedule: "0 6 * * *",
+};
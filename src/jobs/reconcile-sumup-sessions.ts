@@ -0,0 +1,124 @@
+import type {
+	FilterablePaymentSessionProps,
+	MedusaContainer,
+	PaymentSessionDTO,
+} from "@medusajs/framework/types";
+import {
+	ContainerRegistrationKeys,
+	Modules,
+	PaymentActions,
+	PaymentSessionStatus,
+} from "@medusajs/framework/utils";
+import { processPaymentWorkflow } from "@medusajs/medusa/core-flows";
+import { updatePaymentSessionStatus } from "../providers/sumup/core/payment-data";
+import { isFinalUnpaidStatus, isPaidStatus } from "../providers/sumup/core/payment-status";
+import {
+	getPaymentProviderId,
+	resolveSumUpProvider,
+} from "../providers/sumup/core/resolve-provider";
+import type SumUpBase from "../providers/sumup/core/sumup-base";
+import { PaymentProviderKeys } from "../providers/sumup/types";
+
+/**
+ * How long after their last update sessions are reconciled, older ones are left to SumUp's own expiry
+ */
+const LOOKBACK = 7 * 24 * 60 * 60 * 1000;
+
+const BATCH_SIZE = 100;
+
+/**
+ * Session statuses still waiting on SumUp
+ */
+const OPEN_STATUSES = [PaymentSessionStatus.PENDING, PaymentSessionStatus.REQUIRES_MORE];
+
+/**
+ * `FilterablePaymentSessionProps` doesn't declare `status`, though the module filters on it like any session column
+ */
+type OpenSessionFilters = FilterablePaymentSessionProps & { status: PaymentSessionStatus[] };
+
+/**
+ * Whether the session's checkout stopped accepting payment, judged by the checkout's
+ * `valid_until` in session data. `updatePayment` replaces the checkout of older sessions,
+ * so their creation date only counts for sessions stored without `valid_until`.
+ */
+function isCheckoutExpired(session: PaymentSessionDTO, lifetime: number, now: number): boolean {
+	const validUntil = Date.parse(session.data?.valid_until as string);
+	const expiresAt = Number.isNaN(validUntil)
+		? new Date(session.created_at).getTime() + lifetime
+		: validUntil;
+
+	return expiresAt <= now;
+}
+
+/**
+ * Re-checks SumUp payment sessions that stayed pending past their checkout's `valid_until`.
+ * Late-paid sessions are processed as successful payments like their webhook would be,
+ * which also completes their cart, and abandoned checkouts are deactivated and their
+ * sessions canceled.
+ */
+export default async function reconcileSumUpSessions(container: MedusaContainer) {
+	const logger = container.resolve(ContainerRegistrationKeys.LOGGER);
+	const paymentModule = container.resolve(Modules.PAYMENT);
+
+	for (const identifier of Object.values(PaymentProviderKeys)) {
+		let provider: SumUpBase;
+		try {
+			provider = resolveSumUpProvider(container, identifier);
+		} catch {
+			continue;
+		}
+
+		const now = Date.now();
+		const lifetime = provider.getCheckoutLifetime();
+		const stale: PaymentSessionDTO[] = [];
+		const filters: OpenSessionFilters = {
+			provider_id: getPaymentProviderId(identifier),
+			status: OPEN_STATUSES,
+			updated_at: { $gt: new Date(now - LOOKBACK).toISOString() },
+		};
+
+		for (let skip = 0; ; skip += BATCH_SIZE) {
+			const sessions = await paymentModule.listPaymentSessions(
+				filters,
+				{ skip, take: BATCH_SIZE, order: { created_at: "ASC" } }
+			);
+
+			stale.push(...sessions.filter((session) => isCheckoutExpired(session, lifetime, now)));
+
+			if (sessions.length < BATCH_SIZE) {
+				break;
+			}
+		}
+
+		for (const session of stale) {
+			try {
+				const result = await provider.reconcileStalePayment(session.data || {});
+
+				if (isPaidStatus(result.status)) {
+					logger.info(`Processing SumUp payment session ${session.id} that was paid without a webhook`);
+
+					await processPaymentWorkflow(container).run({
+						input: {
+							action: PaymentActions.SUCCESSFUL,
+							data: { session_id: session.id, amount: session.amount },
+						},
+					});
+				} else if (isFinalUnpaidStatus(result.status)) {
+					await updatePaymentSessionStatus(
+						paymentModule,
+						session.id,
+						result.status,
+						result.data || session.data
+					);
+				}
+			} catch (error) {
+				logger.error(`Failed to reconcile SumUp payment session ${session.id}: ${error.message}`);
+			}
+		}
+	}
+}
+
+export const config = {
+	name: "reconcile-sumup-sessions",
+	schedule: "*/15 * * * *",
+};
@@ -0,0 +1,79 @@
+import { MedusaError } from "@medusajs/framework/utils";
+import { SUMUP_SUPPORTED_CURRENCIES } from "../../types";
+import {
+	assertSupportedCurrency,
+	formatSumUpAmount,
+	fromSumUpAmount,
+	getCurrencyDecimals,
+	getSupportedCurrencies,
+	isSupportedCurrency,
+	toSumUpAmount,
+} from "../amount";
+
+/**
+ * Amounts just below and at the rounding boundary of each currency, with the rounded amounts
+ */
+const ROUNDING_TABLE = SUMUP_SUPPORTED_CURRENCIES.map((currency) => {
+	return getCurrencyDecimals(currency) === 0
+		? { currency, below: "10.4999", half: "10.5", roundedDown: 10, roundedUp: 11, formatted: "11" }
+		: { currency, below: "10.004999", half: "10.005", roundedDown: 10, roundedUp: 10.01, formatted: "10.01" };
+});
+
+describe("currencies", () => {
+	it.each([
+		["CLP", 0],
+		["HUF", 0],
+		["huf", 0],
+		["EUR", 2],
+		["gbp", 2],
+		[undefined, 2],
+	])("uses %s decimals for %s", (currency, decimals) => {
+		expect(getCurrencyDecimals(currency)).toBe(decimals);
+	});
+
+	it("lists every supported currency with its decimals", () => {
+		expect(getSupportedCurrencies()).toHaveLength(SUMUP_SUPPORTED_CURRENCIES.length);
+		expect(getSupportedCurrencies()).toContainEqual({ code: "CLP", decimals: 0 });
+		expect(getSupportedCurrencies()).toContainEqual({ code: "EUR", decimals: 2 });
+	});
+
+	it("accepts supported currencies in any case", () => {
+		expect(isSupportedCurrency("eur")).toBe(true);
+		expect(assertSupportedCurrency("eur")).toBe("EUR");
+	});
+
+	it.each([["JPY"], [""], [undefined]])("rejects %j", (currency) => {
+		expect(isSupportedCurrency(currency)).toBe(false);
+		expect(() => assertSupportedCurrency(currency)).toThrow(
+			expect.objectContaining({ type: MedusaError.Types.INVALID_DATA })
+		);
+	});
+});
+
+describe("amount rounding", () => {
+	it.each(ROUNDING_TABLE)(
+		"rounds $currency amounts half up to its decimals",
+		({ currency, below, half, roundedDown, roundedUp, formatted }) => {
+			expect(toSumUpAmount(below, currency)).toBe(roundedDown);
+			expect(toSumUpAmount(half, currency)).toBe(roundedUp);
+			expect(toSumUpAmount(`-${half}`, currency)).toBe(-roundedUp);
+			expect(fromSumUpAmount(Number(half), currency).numeric).toBe(roundedUp);
+			expect(formatSumUpAmount(half, currency)).toBe(formatted);
+		}
+	);
+
+	it("keeps amounts that already fit the currency", () => {
+		expect(toSumUpAmount(10.5, "EUR")).toBe(10.5);
+		expect(toSumUpAmount("0.1", "EUR")).toBe(0.1);
+		expect(toSumUpAmount(1500, "HUF")).toBe(1500);
+	});
+
+	it("pads formatted amounts to the currency's decimals", () => {
+		expect(formatSumUpAmount(10.5, "EUR")).toBe("10.50");
+		expect(formatSumUpAmount(10, "CLP")).toBe("10");
+	});
+
+	it("treats a missing SumUp amount as zero", () => {
+		expect(fromSumUpAmount(undefined, "EUR").numeric).toBe(0);
+	});
+});
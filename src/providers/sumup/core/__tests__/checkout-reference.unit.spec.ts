@@ -0,0 +1,36 @@
+import { toCheckoutReference, toCheckoutRevision, toSessionId } from "../checkout-reference";
+
+describe("checkout references", () => {
+	it.each([
+		["payses_01JABC", 0, "medusa-payses_01JABC"],
+		["payses_01JABC", 1, "medusa-payses_01JABC-r1"],
+		["payses_01JABC", 12, "medusa-payses_01JABC-r12"],
+	])("encodes session %s at revision %i as %s", (sessionId, revision, reference) => {
+		expect(toCheckoutReference(sessionId, revision)).toBe(reference);
+		expect(toSessionId(reference)).toBe(sessionId);
+		expect(toCheckoutRevision(reference)).toBe(revision);
+	});
+
+	it("defaults to the first revision", () => {
+		expect(toCheckoutReference("payses_01JABC")).toBe("medusa-payses_01JABC");
+	});
+
+	it.each([
+		[undefined],
+		[""],
+		["medusa-"],
+		["medusa_1700000000000_abc123def"],
+		["order-1234"],
+	])("doesn't decode a session id from %j", (reference) => {
+		expect(toSessionId(reference)).toBeUndefined();
+	});
+
+	it.each([
+		[undefined, 0],
+		["order-1234", 0],
+		["medusa-payses_01JABC-rx", 0],
+		["medusa-payses_01JABC-r3", 3],
+	])("decodes revision of %j as %i", (reference, revision) => {
+		expect(toCheckoutRevision(reference)).toBe(revision);
+	});
+});
@@ -0,0 +1,89 @@
+import type { Logger } from "@medusajs/framework/types";
+import SumUpHostedCheckoutService from "../../services/sumup-hosted-checkout";
+import {
+	ProviderOptions,
+	SumUpCheckoutResponse,
+	SumUpRefundRecord,
+	SumUpTransaction,
+} from "../../types";
+import type SumUpBase from "../sumup-base";
+import type { SumUpClient } from "../sumup-client";
+
+/**
+ * A successful EUR 10 checkout payment
+ */
+export const transaction = (overrides: Partial<SumUpTransaction> = {}): SumUpTransaction => ({
+	id: "txn_1",
+	transaction_code: "TCODE1",
+	amount: 10,
+	currency: "EUR",
+	status: "SUCCESSFUL",
+	type: "PAYMENT",
+	timestamp: "2026-10-01T10:00:00.000Z",
+	foreign_transaction_id: "medusa-payses_1",
+	...overrides,
+}) as SumUpTransaction;
+
+/**
+ * A pending EUR 1 refund of `txn_1`
+ */
+export const refund = (overrides: Partial<SumUpRefundRecord> = {}): SumUpRefundRecord => ({
+	transaction_id: "txn_1",
+	amount: 1,
+	currency: "EUR",
+	status: "PENDING",
+	created_at: "2026-10-02T10:00:00.000Z",
+	...overrides,
+});
+
+/**
+ * A pending EUR 10 checkout of session `payses_1`
+ */
+export const checkout = (overrides: Partial<SumUpCheckoutResponse> = {}): SumUpCheckoutResponse => ({
+	id: "chk_1",
+	checkout_reference: "medusa-payses_1",
+	amount: 10,
+	currency: "EUR",
+	status: "PENDING",
+	merchant_code: "MCODE",
+	purpose: "CHECKOUT",
+	transactions: [],
+	valid_until: "2026-10-01T11:00:00.000Z",
+	...overrides,
+});
+
+export const PROVIDER_OPTIONS: ProviderOptions = {
+	apiKey: "sup_sk_test_fixture",
+	merchantCode: "MCODE",
+	redirectUrl: "https://shop.test/checkout",
+	medusaUrl: "https://medusa.test",
+	webhookSecret: "whsec",
+	maxRetries: 0,
+};
+
+/**
+ * Creates a provider, the hosted checkout one by default. Specs using it mock the SumUp
+ * client with `jest.mock("../sumup-client")`, and set up its calls through the returned client.
+ */
+export function createProvider(
+	options: Partial<ProviderOptions> = {},
+	Service: new (container: { logger: Logger }, options: ProviderOptions) => SumUpBase = SumUpHostedCheckoutService
+) {
+	const logger = {
+		debug: jest.fn(),
+		info: jest.fn(),
+		warn: jest.fn(),
+		error: jest.fn(),
+	};
+
+	const provider = new Service(
+		{ logger: logger as unknown as Logger },
+		{ ...PROVIDER_OPTIONS, ...options }
+	);
+
+	return {
+		provider,
+		client: jest.mocked(provider["client_"] as SumUpClient),
+		logger,
+	};
+}
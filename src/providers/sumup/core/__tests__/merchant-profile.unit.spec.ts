@@ -0,0 +1,55 @@
+import { runOncePerAccount } from "../merchant-profile";
+import SumUpBase from "../sumup-base";
+import { createProvider, PROVIDER_OPTIONS } from "./fixtures";
+
+jest.mock("../sumup-client");
+
+describe("runOncePerAccount", () => {
+	it("runs a check once per account and environment", () => {
+		const check = jest.fn();
+		const options = { ...PROVIDER_OPTIONS, apiKey: "sup_sk_test_once" };
+
+		runOncePerAccount(options, "check", check);
+		runOncePerAccount(options, "check", check);
+		runOncePerAccount({ ...options, environment: "live" }, "check", check);
+		runOncePerAccount({ ...options, apiKey: "sup_sk_test_other" }, "check", check);
+		runOncePerAccount(options, "other check", check);
+
+		expect(check).toHaveBeenCalledTimes(4);
+	});
+
+	it("runs a check again after it threw", () => {
+		const options = { ...PROVIDER_OPTIONS, apiKey: "sup_sk_test_throws" };
+		const check = jest.fn()
+			.mockImplementationOnce(() => {
+				throw new Error("invalid");
+			});
+
+		expect(() => runOncePerAccount(options, "check", check)).toThrow("invalid");
+		runOncePerAccount(options, "check", check);
+		runOncePerAccount(options, "check", check);
+
+		expect(check).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe("SumUpBase startup checks", () => {
+	it("warns and verifies the API key once for all providers of an account", () => {
+		const options = { apiKey: "sup_sk_test_startup", webhookSecret: undefined };
+		const providers = Array.from({ length: 5 }, () => createProvider(options));
+
+		expect(providers[0].logger.warn).toHaveBeenCalledWith(expect.stringContaining("webhookSecret is not set"));
+		expect(providers[0].client.getMerchant).toHaveBeenCalledTimes(1);
+		providers.slice(1).forEach(({ logger, client }) => {
+			expect(logger.warn).not.toHaveBeenCalled();
+			expect(client.getMerchant).not.toHaveBeenCalled();
+		});
+	});
+
+	it("rejects invalid options for every provider", () => {
+		const options = { ...PROVIDER_OPTIONS, apiKey: "sup_sk_live_invalid" };
+
+		expect(() => SumUpBase.validateOptions(options)).toThrow("live key");
+		expect(() => SumUpBase.validateOptions(options)).toThrow("live key");
+	});
+});
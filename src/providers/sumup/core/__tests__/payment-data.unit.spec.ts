@@ -0,0 +1,30 @@
+import type { IPaymentModuleService } from "@medusajs/framework/types";
+import { mergePaymentData } from "../payment-data";
+
+describe("mergePaymentData", () => {
+	it("merges the fields into the payment's current data", async () => {
+		const paymentModule = {
+			retrievePayment: jest.fn().mockResolvedValue({ id: "pay_1", data: { id: "chk_1", refunds: [{ amount: 1 }] } }),
+			updatePayment: jest.fn().mockImplementation(async (update) => update),
+		};
+
+		await mergePaymentData(paymentModule as unknown as IPaymentModuleService, "pay_1", { settlement: { fee_amount: 0.3 } });
+
+		expect(paymentModule.retrievePayment).toHaveBeenCalledWith("pay_1", { select: ["id", "data"] });
+		expect(paymentModule.updatePayment).toHaveBeenCalledWith({
+			id: "pay_1",
+			data: { id: "chk_1", refunds: [{ amount: 1 }], settlement: { fee_amount: 0.3 } },
+		});
+	});
+
+	it("handles payments without data", async () => {
+		const paymentModule = {
+			retrievePayment: jest.fn().mockResolvedValue({ id: "pay_1", data: null }),
+			updatePayment: jest.fn(),
+		};
+
+		await mergePaymentData(paymentModule as unknown as IPaymentModuleService, "pay_1", { settlement: {} });
+
+		expect(paymentModule.updatePayment).toHaveBeenCalledWith({ id: "pay_1", data: { settlement: {} } });
+	});
+});
@@ -0,0 +1,177 @@
+import { PaymentActions, PaymentSessionStatus } from "@medusajs/framework/utils";
+import {
+	getWebhookEventState,
+	isDeclinedAttempt,
+	isFinalUnpaidStatus,
+	isPaidStatus,
+	resolvePaymentStatus,
+	SumUpPaymentState,
+	toWebhookAction,
+} from "../payment-status";
+
+type TransactionStatus = "PENDING" | "SUCCESSFUL" | "FAILED" | "CANCELLED";
+
+const {
+	AUTHORIZED,
+	CANCELED,
+	CAPTURED,
+	ERROR,
+	PENDING,
+	REQUIRES_MORE,
+} = PaymentSessionStatus;
+
+/**
+ * Checkout status, its transactions in order, and the expected session status by default
+ * and while the shopper has a `next_step` to complete
+ */
+const STATUS_TABLE: Array<[
+	SumUpPaymentState["status"],
+	TransactionStatus[],
+	PaymentSessionStatus,
+	PaymentSessionStatus,
+]> = [
+	["PENDING", [], PENDING, REQUIRES_MORE],
+	["PENDING", ["PENDING"], PENDING, REQUIRES_MORE],
+	["PENDING", ["SUCCESSFUL"], CAPTURED, CAPTURED],
+	["PENDING", ["FAILED"], PENDING, REQUIRES_MORE],
+	["PENDING", ["CANCELLED"], CANCELED, CANCELED],
+	["PENDING", ["FAILED", "PENDING"], PENDING, REQUIRES_MORE],
+	["PENDING", ["FAILED", "SUCCESSFUL"], CAPTURED, CAPTURED],
+	["PENDING", ["SUCCESSFUL", "CANCELLED"], CAPTURED, CAPTURED],
+
+	["PAID", [], CAPTURED, CAPTURED],
+	["PAID", ["PENDING"], CAPTURED, CAPTURED],
+	["PAID", ["SUCCESSFUL"], CAPTURED, CAPTURED],
+	["PAID", ["FAILED"], CAPTURED, CAPTURED],
+	["PAID", ["CANCELLED"], CANCELED, CANCELED],
+	["PAID", ["FAILED", "PENDING"], CAPTURED, CAPTURED],
+	["PAID", ["FAILED", "SUCCESSFUL"], CAPTURED, CAPTURED],
+	["PAID", ["SUCCESSFUL", "CANCELLED"], CAPTURED, CAPTURED],
+
+	["FAILED", [], ERROR, ERROR],
+	["FAILED", ["PENDING"], ERROR, ERROR],
+	["FAILED", ["SUCCESSFUL"], CAPTURED, CAPTURED],
+	["FAILED", ["FAILED"], ERROR, ERROR],
+	["FAILED", ["CANCELLED"], ERROR, ERROR],
+	["FAILED", ["FAILED", "PENDING"], ERROR, ERROR],
+	["FAILED", ["FAILED", "SUCCESSFUL"], CAPTURED, CAPTURED],
+	["FAILED", ["SUCCESSFUL", "CANCELLED"], CAPTURED, CAPTURED],
+
+	["EXPIRED", [], CANCELED, CANCELED],
+	["EXPIRED", ["PENDING"], CANCELED, CANCELED],
+	["EXPIRED", ["SUCCESSFUL"], CAPTURED, CAPTURED],
+	["EXPIRED", ["FAILED"], CANCELED, CANCELED],
+	["EXPIRED", ["CANCELLED"], CANCELED, CANCELED],
+	["EXPIRED", ["FAILED", "PENDING"], CANCELED, CANCELED],
+	["EXPIRED", ["FAILED", "SUCCESSFUL"], CAPTURED, CAPTURED],
+	["EXPIRED", ["SUCCESSFUL", "CANCELLED"], CAPTURED, CAPTURED],
+];
+
+const toState = (
+	status: SumUpPaymentState["status"],
+	transactions: TransactionStatus[]
+): SumUpPaymentState => ({
+	status,
+	transactions: transactions.map((transactionStatus) => ({ status: transactionStatus })),
+});
+
+describe("resolvePaymentStatus", () => {
+	it.each(STATUS_TABLE)(
+		"resolves a %s checkout with transactions %j",
+		(status, transactions, expected, awaitingShopper) => {
+			const state = toState(status, transactions);
+
+			expect(resolvePaymentStatus(state)).toBe(expected);
+			expect(resolvePaymentStatus(state, { awaitingShopper: true })).toBe(awaitingShopper);
+		}
+	);
+
+	it("ignores awaitingShopper once the payment has an outcome", () => {
+		expect(resolvePaymentStatus(toState("PAID", []), { awaitingShopper: true })).toBe(CAPTURED);
+		expect(resolvePaymentStatus(toState("PENDING", ["CANCELLED"]), { awaitingShopper: true })).toBe(CANCELED);
+	});
+
+	it("treats a checkout without transactions like an empty list", () => {
+		expect(resolvePaymentStatus({ status: "PENDING" })).toBe(PENDING);
+		expect(resolvePaymentStatus({ status: "PAID" })).toBe(CAPTURED);
+	});
+});
+
+describe("isDeclinedAttempt", () => {
+	it.each([
+		["PENDING", ["FAILED"], true],
+		["PENDING", ["SUCCESSFUL", "FAILED"], false],
+		["PENDING", ["FAILED", "PENDING"], false],
+		["PENDING", [], false],
+		["FAILED", ["FAILED"], false],
+		["PAID", ["FAILED"], false],
+	] as const)("treats a %s checkout with transactions %j as declined: %s", (status, transactions, declined) => {
+		expect(isDeclinedAttempt(toState(status, [...transactions]))).toBe(declined);
+	});
+});
+
+describe("isPaidStatus and isFinalUnpaidStatus", () => {
+	it.each([
+		[AUTHORIZED, true, false],
+		[CAPTURED, true, false],
+		[PENDING, false, false],
+		[REQUIRES_MORE, false, false],
+		[ERROR, false, true],
+		[CANCELED, false, true],
+	])("classifies %s", (status, paid, finalUnpaid) => {
+		expect(isPaidStatus(status)).toBe(paid);
+		expect(isFinalUnpaidStatus(status)).toBe(finalUnpaid);
+	});
+});
+
+describe("toWebhookAction", () => {
+	it.each([
+		[CAPTURED, PaymentActions.SUCCESSFUL],
+		[AUTHORIZED, PaymentActions.AUTHORIZED],
+		[ERROR, PaymentActions.FAILED],
+		[CANCELED, PaymentActions.CANCELED],
+		[PENDING, PaymentActions.NOT_SUPPORTED],
+		[REQUIRES_MORE, PaymentActions.NOT_SUPPORTED],
+	])("maps %s to %s", (status, action) => {
+		expect(toWebhookAction(status)).toBe(action);
+	});
+});
+
+describe("getWebhookEventState", () => {
+	it.each([
+		["checkout_paid", { status: "PAID" }],
+		["checkout_failed", { status: "FAILED" }],
+		["checkout_cancelled", { status: "EXPIRED" }],
+		["checkout_expired", { status: "EXPIRED" }],
+		["transaction_successful", { status: "PENDING", transactions: [{ status: "SUCCESSFUL" }] }],
+		["transaction_failed", { status: "PENDING", transactions: [{ status: "FAILED" }] }],
+		["transaction_cancelled", { status: "PENDING", transactions: [{ status: "CANCELLED" }] }],
+		["payment_captured", { status: "PENDING", transactions: [{ status: "SUCCESSFUL" }] }],
+		["payment_failed", { status: "PENDING", transactions: [{ status: "FAILED" }] }],
+		["payment_cancelled", { status: "PENDING", transactions: [{ status: "CANCELLED" }] }],
+	])("returns the state %s reports", (eventType, state) => {
+		expect(getWebhookEventState(eventType)).toEqual(state);
+	});
+
+	it.each(["checkout_created", "CHECKOUT_STATUS_CHANGED", "", "toString"])(
+		"returns undefined for unhandled event %j",
+		(eventType) => {
+			expect(getWebhookEventState(eventType)).toBeUndefined();
+		}
+	);
+
+	it.each([
+		["checkout_paid", PaymentActions.SUCCESSFUL],
+		["checkout_failed", PaymentActions.FAILED],
+		["checkout_cancelled", PaymentActions.CANCELED],
+		["checkout_expired", PaymentActions.CANCELED],
+		["transaction_successful", PaymentActions.SUCCESSFUL],
+		["transaction_failed", PaymentActions.NOT_SUPPORTED],
+		["transaction_cancelled", PaymentActions.CANCELED],
+		["payment_captured", PaymentActions.SUCCESSFUL],
+		["payment_failed", PaymentActions.NOT_SUPPORTED],
+		["payment_cancelled", PaymentActions.CANCELED],
+	])("turns %s into the %s action", (eventType, action) => {
+		expect(toWebhookAction(resolvePaymentStatus(getWebhookEventState(eventType)!))).toBe(action);
+	});
+});
@@ -0,0 +1,88 @@
+import { SumUpPayout } from "../../types";
+import { groupPayouts, groupPayoutsByTransaction, toSettlement } from "../payouts";
+
+const line = (overrides: Partial<SumUpPayout>): SumUpPayout => ({
+	id: "payout_1",
+	transaction_code: "TCODE1",
+	amount: 9.7,
+	fee: 0.3,
+	currency: "EUR",
+	date: "2026-10-03",
+	status: "SUCCESSFUL",
+	type: "PAYOUT",
+	...overrides,
+});
+
+describe("groupPayoutsByTransaction", () => {
+	it("groups lines by transaction code, leaving out failed lines and lines without a transaction", () => {
+		const groups = groupPayoutsByTransaction([
+			line({ transaction_code: "TCODE1" }),
+			line({ transaction_code: "TCODE2" }),
+			line({ transaction_code: "TCODE1", type: "REFUND_DEDUCTION", amount: 2, fee: 0 }),
+			line({ transaction_code: "TCODE3", status: "FAILED" }),
+			line({ transaction_code: undefined, type: "BALANCE_DEDUCTION" }),
+		]);
+
+		expect([...groups.keys()]).toEqual(["TCODE1", "TCODE2"]);
+		expect(groups.get("TCODE1")!.map((payout) => payout.type)).toEqual(["PAYOUT", "REFUND_DEDUCTION"]);
+	});
+});
+
+describe("groupPayouts", () => {
+	it("sums the net amount and fees of each payout, deducting deductions", () => {
+		const payouts = groupPayouts([
+			line({ id: "payout_1", amount: 9.7, fee: 0.3 }),
+			line({ id: "payout_1", transaction_code: "TCODE2", amount: 19.4, fee: 0.6 }),
+			line({ id: "payout_1", type: "CHARGE_BACK_DEDUCTION", amount: -5, fee: 0 }),
+			line({ id: "payout_1", transaction_code: "TCODE3", amount: 100, fee: 1, status: "FAILED" }),
+			line({ id: "payout_2", date: "2026-10-04", amount: 1.1, fee: 0.1 }),
+		]);
+
+		expect(payouts.map(({ lines, ...payout }) => ({ ...payout, lines: lines.length }))).toEqual([
+			{ id: "payout_1", date: "2026-10-03", currency: "EUR", amount: 24.1, fee: 0.9, lines: 4 },
+			{ id: "payout_2", date: "2026-10-04", currency: "EUR", amount: 1.1, fee: 0.1, lines: 1 },
+		]);
+	});
+});
+
+describe("toSettlement", () => {
+	beforeEach(() => {
+		jest.useFakeTimers({ now: new Date("2026-10-05T06:00:00.000Z") });
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it("sums the fees and net amount, taking the payout from the line that paid the transaction out", () => {
+		const lines = [
+			line({ id: "payout_2", type: "REFUND_DEDUCTION", amount: 3, fee: 0, date: "2026-10-04" }),
+			line({ id: "payout_1", amount: 9.7, fee: 0.3 }),
+		];
+
+		expect(toSettlement(lines, "EUR")).toEqual({
+			payout_id: "payout_1",
+			payout_date: "2026-10-03",
+			currency: "EUR",
+			fee_amount: 0.3,
+			net_amount: 6.7,
+			payouts: lines,
+			imported_at: "2026-10-05T06:00:00.000Z",
+		});
+	});
+
+	it("falls back to the first line without a payout line", () => {
+		const settlement = toSettlement([line({ id: "payout_3", type: "BALANCE_DEDUCTION", amount: 1, fee: 0 })], "EUR");
+
+		expect(settlement).toEqual(expect.objectContaining({ payout_id: "payout_3", net_amount: -1, fee_amount: 0 }));
+	});
+
+	it("returns an empty settlement without lines", () => {
+		expect(toSettlement([], "EUR")).toEqual(expect.objectContaining({
+			payout_id: undefined,
+			fee_amount: 0,
+			net_amount: 0,
+			payouts: [],
+		}));
+	});
+});
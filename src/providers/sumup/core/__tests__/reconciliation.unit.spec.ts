@@ -0,0 +1,184 @@
+import { SumUpTransaction } from "../../types";
+import {
+	RECONCILIATION_ISSUES,
+	ReconciliationPayment,
+	reconcileTransactions,
+	toReconciliationCsv,
+} from "../reconciliation";
+import { transaction } from "./fixtures";
+
+const period = {
+	from: new Date("2026-10-01T00:00:00.000Z"),
+	to: new Date("2026-10-02T00:00:00.000Z"),
+};
+
+const payment = (overrides: Partial<ReconciliationPayment>): ReconciliationPayment => ({
+	session_id: "payses_1",
+	payment_id: "pay_1",
+	order_id: "order_1",
+	currency_code: "eur",
+	amount: 10,
+	captured_amount: 10,
+	refunded_amount: 0,
+	transaction_ids: [],
+	transaction_codes: [],
+	...overrides,
+});
+
+describe("reconcileTransactions", () => {
+	it("matches transactions to payments by the session in their checkout reference", () => {
+		const report = reconcileTransactions(
+			[
+				transaction({ id: "txn_1", amount: 4, foreign_transaction_id: "medusa-payses_1" }),
+				transaction({ id: "txn_2", amount: 6, foreign_transaction_id: "medusa-payses_1-r1" }),
+			],
+			[payment({})],
+			period
+		);
+
+		expect(report.summary).toEqual({ entries: 1, matched: 1, mismatched: 0, issues: {} });
+		expect(report.entries[0]).toEqual(expect.objectContaining({
+			session_id: "payses_1",
+			payment_id: "pay_1",
+			order_id: "order_1",
+			checkout_reference: "medusa-payses_1",
+			transaction_codes: ["TCODE1", "TCODE1"],
+			currency: "EUR",
+			sumup_amount: 10,
+			medusa_amount: 10,
+			issues: [],
+		}));
+		expect(report.from).toBe("2026-10-01T00:00:00.000Z");
+		expect(report.to).toBe("2026-10-02T00:00:00.000Z");
+	});
+
+	it("falls back to the transaction id or code stored on the payment", () => {
+		const report = reconcileTransactions(
+			[
+				transaction({ id: "txn_1", foreign_transaction_id: undefined }),
+				transaction({ id: "txn_2", transaction_code: "TCODE2", foreign_transaction_id: "order-2" }),
+			],
+			[
+				payment({ transaction_ids: ["txn_1"] }),
+				payment({ session_id: "payses_2", payment_id: "pay_2", transaction_codes: ["TCODE2"] }),
+			],
+			period
+		);
+
+		expect(report.entries.map((entry) => [entry.payment_id, entry.issues])).toEqual([
+			["pay_1", []],
+			["pay_2", []],
+		]);
+	});
+
+	it("ignores transactions that weren't charged and refund transactions", () => {
+		const report = reconcileTransactions(
+			[
+				transaction({ status: "FAILED" }),
+				transaction({ status: "CANCELLED" }),
+				transaction({ type: "REFUND" }),
+			],
+			[],
+			period
+		);
+
+		expect(report.entries).toEqual([]);
+	});
+
+	it.each([
+		[
+			"orphaned checkouts",
+			[transaction({ foreign_transaction_id: "medusa-payses_unknown" })],
+			[],
+			[RECONCILIATION_ISSUES.ORPHANED_CHECKOUT],
+		],
+		[
+			"payments missing in SumUp",
+			[],
+			[payment({})],
+			[RECONCILIATION_ISSUES.MISSING_IN_SUMUP],
+		],
+		[
+			"sessions that were never authorized",
+			[transaction({})],
+			[payment({ payment_id: undefined, captured_amount: 0 })],
+			[RECONCILIATION_ISSUES.NOT_CAPTURED],
+		],
+		[
+			"payments that weren't captured",
+			[transaction({})],
+			[payment({ captured_amount: 0 })],
+			[RECONCILIATION_ISSUES.NOT_CAPTURED],
+		],
+		[
+			"amount mismatches",
+			[transaction({ amount: 9.99 })],
+			[payment({})],
+			[RECONCILIATION_ISSUES.AMOUNT_MISMATCH],
+		],
+		[
+			"refunds missing in Medusa",
+			[transaction({ status: "REFUNDED" as SumUpTransaction["status"], refunded_amount: 10 })],
+			[payment({ refunded_amount: 4 })],
+			[RECONCILIATION_ISSUES.REFUND_MISSING_IN_MEDUSA],
+		],
+		[
+			"refunds missing in SumUp",
+			[transaction({
+				events: [
+					{ id: 1, type: "REFUND", status: "REFUNDED", amount: 2, timestamp: "" },
+					{ id: 2, type: "REFUND", status: "FAILED", amount: 3, timestamp: "" },
+				],
+			})],
+			[payment({ refunded_amount: 5 })],
+			[RECONCILIATION_ISSUES.REFUND_MISSING_IN_SUMUP],
+		],
+	])("flags %s", (_, transactions, payments, issues) => {
+		const report = reconcileTransactions(transactions, payments, period);
+
+		expect(report.entries.map((entry) => entry.issues)).toEqual([issues]);
+		expect(report.summary.mismatched).toBe(1);
+		expect(report.summary.issues).toEqual({ [issues[0]]: 1 });
+	});
+
+	it("doesn't report uncaptured sessions without transactions", () => {
+		const report = reconcileTransactions([], [payment({ payment_id: undefined, captured_amount: 0 })], period);
+
+		expect(report.entries).toEqual([]);
+	});
+});
+
+describe("toReconciliationCsv", () => {
+	it("renders one line per entry and quotes values that need it", () => {
+		const report = reconcileTransactions(
+			[
+				transaction({ transaction_code: "TCODE1" }),
+				transaction({ id: "txn_2", transaction_code: "TCODE2", amount: 5 }),
+			],
+			[payment({ order_id: "order \"1\", retail" })],
+			period
+		);
+
+		expect(toReconciliationCsv(report).split("\n")).toEqual([
+			"session_id,payment_id,order_id,checkout_reference,transaction_codes,timestamp,currency," +
+				"sumup_amount,sumup_refunded_amount,medusa_amount,medusa_captured_amount,medusa_refunded_amount,issues",
+			"payses_1,pay_1,\"order \"\"1\"\", retail\",medusa-payses_1,TCODE1 TCODE2,2026-10-01T10:00:00.000Z,EUR," +
+				"15,0,10,10,0,amount_mismatch",
+		]);
+	});
+
+	it.each(["=HYPERLINK(\"https://evil.test\")", "+1+1", "-1+1", "@SUM(A1)"])(
+		"keeps spreadsheets from running %s as a formula",
+		(orderId) => {
+			const report = reconcileTransactions([transaction()], [payment({ order_id: orderId })], period);
+
+			expect(toReconciliationCsv(report).split("\n")[1].split(",")[2]).toMatch(/^"?'[=+\-@]/);
+		}
+	);
+
+	it("writes negative amounts as numbers", () => {
+		const report = reconcileTransactions([transaction({ amount: -5 })], [payment({})], period);
+
+		expect(toReconciliationCsv(report).split("\n")[1]).toContain(",-5,");
+	});
+});
@@ -0,0 +1,137 @@
+import { MedusaError } from "@medusajs/framework/utils";
+import {
+	allocateRefund,
+	applyRefundEvents,
+	getRefundableAmount,
+	getRefundedAmount,
+} from "../refund-ledger";
+import { refund, transaction } from "./fixtures";
+
+describe("getRefundedAmount", () => {
+	it("sums refunds that didn't fail, without floating point errors", () => {
+		const ledger = [
+			refund({ amount: 0.1 }),
+			refund({ amount: 0.2, status: "SUCCESSFUL" }),
+			refund({ amount: 5, status: "FAILED" }),
+		];
+
+		expect(getRefundedAmount(ledger, "EUR")).toBe(0.3);
+	});
+
+	it("only sums the refunds of a transaction when given one", () => {
+		const ledger = [refund({ amount: 2 }), refund({ transaction_id: "txn_2", amount: 3 })];
+
+		expect(getRefundedAmount(ledger, "EUR", "txn_2")).toBe(3);
+		expect(getRefundedAmount([], "EUR")).toBe(0);
+	});
+});
+
+describe("getRefundableAmount", () => {
+	it("returns the balance left after refunds", () => {
+		expect(getRefundableAmount(transaction({ amount: 10 }), [refund({ amount: 3.3 })])).toBe(6.7);
+	});
+
+	it("never returns a negative balance", () => {
+		expect(getRefundableAmount(transaction({ amount: 10 }), [refund({ amount: 12 })])).toBe(0);
+	});
+});
+
+describe("allocateRefund", () => {
+	const transactions = [
+		transaction({ id: "txn_1", amount: 6 }),
+		transaction({ id: "txn_failed", amount: 50, status: "FAILED" }),
+		transaction({ id: "txn_2", amount: 4 }),
+	];
+
+	it("fills each successful transaction's balance in turn", () => {
+		const allocations = allocateRefund(transactions, [refund({ amount: 1 })], 7, "EUR");
+
+		expect(allocations.map(({ transaction: { id }, amount }) => [id, amount])).toEqual([
+			["txn_1", 5],
+			["txn_2", 2],
+		]);
+	});
+
+	it("skips transactions that were refunded in full", () => {
+		const allocations = allocateRefund(transactions, [refund({ amount: 6 })], 4, "EUR");
+
+		expect(allocations.map(({ transaction: { id }, amount }) => [id, amount])).toEqual([["txn_2", 4]]);
+	});
+
+	it("rejects refunds above the refundable balance", () => {
+		expect(() => allocateRefund(transactions, [refund({ amount: 1 })], 9.01, "EUR")).toThrow(
+			expect.objectContaining({
+				type: MedusaError.Types.NOT_ALLOWED,
+				message: "Cannot refund 9.01 EUR, only 9 EUR is refundable",
+			})
+		);
+	});
+
+	it("allows refunding the exact balance", () => {
+		expect(allocateRefund(transactions, [], 10, "EUR")).toHaveLength(2);
+	});
+});
+
+describe("applyRefundEvents", () => {
+	it("matches entries to refund events by id, then by amount", () => {
+		const ledger = [
+			refund({ refund_id: "2", amount: 2 }),
+			refund({ amount: 1 }),
+			refund({ amount: 1 }),
+			refund({ transaction_id: "txn_2", amount: 1 }),
+		];
+
+		const synced = applyRefundEvents(ledger, transaction({
+			events: [
+				{ id: 1, type: "REFUND", status: "REFUNDED", amount: 1, timestamp: "" },
+				{ id: 2, type: "REFUND", status: "FAILED", amount: 2, timestamp: "" },
+				{ id: 3, type: "PAYOUT", status: "PAID_OUT", amount: 1, timestamp: "" },
+				{ id: 4, type: "REFUND", status: "PENDING", amount: 1, timestamp: "" },
+			],
+		}));
+
+		expect(synced.map(({ refund_id, status }) => [refund_id, status])).toEqual([
+			["2", "FAILED"],
+			["1", "SUCCESSFUL"],
+			["4", "PENDING"],
+			[undefined, "PENDING"],
+		]);
+	});
+
+	it.each([
+		["REFUNDED", "SUCCESSFUL"],
+		["SUCCESSFUL", "SUCCESSFUL"],
+		["PAID_OUT", "SUCCESSFUL"],
+		["FAILED", "FAILED"],
+		["PENDING", "PENDING"],
+		["SCHEDULED", "PENDING"],
+	])("maps refund event status %s to %s", (eventStatus, status) => {
+		const [synced] = applyRefundEvents([refund({})], transaction({
+			events: [{ id: 1, type: "REFUND", status: eventStatus, amount: 1, timestamp: "" }],
+		}));
+
+		expect(synced.status).toBe(status);
+	});
+
+	it("adds refunds the ledger doesn't hold", () => {
+		const synced = applyRefundEvents([refund({ refund_id: "1", amount: 2 })], transaction({
+			currency: "EUR",
+			events: [
+				{ id: 1, type: "REFUND", status: "REFUNDED", amount: 2, timestamp: "2026-10-02T10:00:00.000Z" },
+				{ id: 2, type: "REFUND", status: "PENDING", amount: 3, timestamp: "2026-10-03T10:00:00.000Z" },
+			],
+		}));
+
+		expect(synced).toEqual([
+			refund({ refund_id: "1", amount: 2, status: "SUCCESSFUL" }),
+			refund({ refund_id: "2", amount: 3, created_at: "2026-10-03T10:00:00.000Z" }),
+		]);
+		expect(getRefundedAmount(synced, "EUR")).toBe(5);
+	});
+
+	it("leaves entries without a matching event unchanged", () => {
+		const ledger = [refund({ amount: 3 })];
+
+		expect(applyRefundEvents(ledger, transaction({ events: undefined }))).toEqual(ledger);
+	});
+});
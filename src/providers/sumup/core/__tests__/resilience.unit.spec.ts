@@ -0,0 +1,186 @@
+import { SUMUP_ERROR_CODES } from "../../types";
+import {
+	CircuitBreaker,
+	DEFAULT_RESILIENCE_OPTIONS,
+	getRetryDelay,
+	isOutageError,
+	isRetryableError,
+	parseRetryAfter,
+} from "../resilience";
+import { SumUpError } from "../sumup-error";
+
+describe("CircuitBreaker", () => {
+	beforeEach(() => {
+		jest.useFakeTimers({ now: new Date("2026-10-01T10:00:00.000Z") });
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it("opens after the threshold of consecutive failures", () => {
+		const breaker = new CircuitBreaker(3, 1000);
+
+		expect(breaker.recordFailure()).toBe(false);
+		expect(breaker.recordFailure()).toBe(false);
+		expect(() => breaker.assertClosed()).not.toThrow();
+
+		expect(breaker.recordFailure()).toBe(true);
+		expect(() => breaker.assertClosed()).toThrow(
+			expect.objectContaining({ code: SUMUP_ERROR_CODES.PROVIDER_UNAVAILABLE })
+		);
+	});
+
+	it("resets the count on success", () => {
+		const breaker = new CircuitBreaker(2, 1000);
+
+		breaker.recordFailure();
+		breaker.recordSuccess();
+		breaker.recordFailure();
+
+		expect(() => breaker.assertClosed()).not.toThrow();
+	});
+
+	it("lets a request through after the cooldown and reopens if it fails", () => {
+		const breaker = new CircuitBreaker(1, 1000);
+		breaker.recordFailure();
+
+		jest.advanceTimersByTime(999);
+		expect(() => breaker.assertClosed()).toThrow();
+
+		jest.advanceTimersByTime(1);
+		expect(() => breaker.assertClosed()).not.toThrow();
+
+		// Already open, so this failure doesn't count as opening it
+		expect(breaker.recordFailure()).toBe(false);
+		expect(() => breaker.assertClosed()).toThrow();
+
+		jest.advanceTimersByTime(1000);
+		breaker.recordSuccess();
+		expect(() => breaker.assertClosed()).not.toThrow();
+	});
+
+	it("lets a single probe through after the cooldown until it succeeds", () => {
+		const breaker = new CircuitBreaker(1, 1000);
+		breaker.recordFailure();
+		jest.advanceTimersByTime(1000);
+
+		expect(() => breaker.assertClosed()).not.toThrow();
+		expect(() => breaker.assertClosed()).toThrow(
+			expect.objectContaining({ code: SUMUP_ERROR_CODES.PROVIDER_UNAVAILABLE })
+		);
+
+		breaker.recordSuccess();
+		expect(() => breaker.assertClosed()).not.toThrow();
+		expect(() => breaker.assertClosed()).not.toThrow();
+	});
+
+	it("waits another cooldown after a failed probe", () => {
+		const breaker = new CircuitBreaker(1, 1000);
+		breaker.recordFailure();
+		jest.advanceTimersByTime(1000);
+		breaker.assertClosed();
+
+		breaker.recordFailure();
+
+		jest.advanceTimersByTime(999);
+		expect(() => breaker.assertClosed()).toThrow();
+		jest.advanceTimersByTime(1);
+		expect(() => breaker.assertClosed()).not.toThrow();
+		expect(() => breaker.assertClosed()).toThrow();
+	});
+
+	it("lets another probe through when one never reports back", () => {
+		const breaker = new CircuitBreaker(1, 1000);
+		breaker.recordFailure();
+		jest.advanceTimersByTime(1000);
+		breaker.assertClosed();
+
+		jest.advanceTimersByTime(999);
+		expect(() => breaker.assertClosed()).toThrow();
+		jest.advanceTimersByTime(1);
+		expect(() => breaker.assertClosed()).not.toThrow();
+	});
+
+	it("never opens with a threshold of 0", () => {
+		const breaker = new CircuitBreaker(0, 1000);
+
+		for (let i = 0; i < 10; i++) {
+			expect(breaker.recordFailure()).toBe(false);
+		}
+
+		expect(() => breaker.assertClosed()).not.toThrow();
+	});
+});
+
+describe("isOutageError and isRetryableError", () => {
+	it.each([
+		[undefined, true, true],
+		[500, true, true],
+		[503, true, true],
+		[429, false, true],
+		[400, false, false],
+		[401, false, false],
+		[404, false, false],
+		[409, false, false],
+	])("classifies status %s", (status, outage, retryable) => {
+		const error = status === undefined
+			? SumUpError.fromNetworkError(new Error("socket hang up"))
+			: SumUpError.fromResponse(status, { message: "error" });
+
+		expect(isOutageError(error)).toBe(outage);
+		expect(isRetryableError(error)).toBe(retryable);
+	});
+});
+
+describe("getRetryDelay", () => {
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it("uses Retry-After up to the maximum delay", () => {
+		expect(getRetryDelay(0, DEFAULT_RESILIENCE_OPTIONS, 1200)).toBe(1200);
+		expect(getRetryDelay(0, DEFAULT_RESILIENCE_OPTIONS, 5000)).toBe(5000);
+		expect(getRetryDelay(0, DEFAULT_RESILIENCE_OPTIONS, 5001)).toBeUndefined();
+	});
+
+	it.each([
+		[0, 200],
+		[1, 400],
+		[3, 1600],
+		[10, 5000],
+	])("backs off exponentially with full jitter on attempt %i", (attempt, backoff) => {
+		jest.spyOn(Math, "random").mockReturnValue(1);
+		expect(getRetryDelay(attempt, DEFAULT_RESILIENCE_OPTIONS)).toBe(backoff);
+
+		jest.spyOn(Math, "random").mockReturnValue(0.5);
+		expect(getRetryDelay(attempt, DEFAULT_RESILIENCE_OPTIONS)).toBe(backoff / 2);
+
+		jest.spyOn(Math, "random").mockReturnValue(0);
+		expect(getRetryDelay(attempt, DEFAULT_RESILIENCE_OPTIONS)).toBe(0);
+	});
+});
+
+describe("parseRetryAfter", () => {
+	beforeEach(() => {
+		jest.useFakeTimers({ now: new Date("2026-10-01T10:00:00.000Z") });
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it.each([
+		[undefined, undefined],
+		[null, undefined],
+		["", undefined],
+		["2", 2000],
+		["0.5", 500],
+		["-1", 0],
+		["Thu, 01 Oct 2026 10:00:03 GMT", 3000],
+		["Thu, 01 Oct 2026 09:59:00 GMT", 0],
+		["soon", undefined],
+	])("parses %j as %s milliseconds", (header, delay) => {
+		expect(parseRetryAfter(header)).toBe(delay);
+	});
+});
@@ -0,0 +1,71 @@
+import { MedusaError } from "@medusajs/framework/utils";
+import { checkout, createProvider, transaction } from "./fixtures";
+
+jest.mock("../sumup-client");
+
+const input = { data: { id: "chk_1" } };
+
+describe("SumUpBase.cancelPayment", () => {
+	it("deactivates a pending checkout", async () => {
+		const { provider, client } = createProvider();
+		client.getCheckout.mockResolvedValue(checkout());
+
+		const { data } = await provider.cancelPayment(input);
+
+		expect(client.deactivateCheckout).toHaveBeenCalledWith("chk_1");
+		expect(data?.cancellation).toEqual(expect.objectContaining({ action: "deactivated", checkout_status: "PENDING" }));
+	});
+
+	it.each(["EXPIRED", "FAILED"] as const)("leaves a %s checkout alone", async (status) => {
+		const { provider, client } = createProvider();
+		client.getCheckout.mockResolvedValue(checkout({ status }));
+
+		const { data } = await provider.cancelPayment(input);
+
+		expect(client.deactivateCheckout).not.toHaveBeenCalled();
+		expect(data?.cancellation).toEqual(expect.objectContaining({ action: "none", checkout_status: status }));
+	});
+
+	it("refunds the remaining balance of a paid checkout by default", async () => {
+		const { provider, client } = createProvider();
+		client.getCheckout.mockResolvedValue(checkout({ status: "PAID", transactions: [transaction()] }));
+		client.getTransaction.mockResolvedValue(transaction());
+
+		const { data } = await provider.cancelPayment({
+			data: {
+				...input.data,
+				refunds: [{ transaction_id: "txn_1", amount: 3, currency: "EUR", status: "SUCCESSFUL", created_at: "" }],
+			},
+		});
+
+		expect(client.deactivateCheckout).not.toHaveBeenCalled();
+		expect(client.refundTransaction).toHaveBeenCalledWith("txn_1", { amount: 7 });
+		expect(data?.status).toBe("CANCELLED");
+		expect(data?.cancellation).toEqual(expect.objectContaining({ action: "refunded", refunded_amount: 7 }));
+		expect(data?.refunds).toHaveLength(2);
+	});
+
+	it("doesn't refund a paid checkout that was refunded in full", async () => {
+		const { provider, client } = createProvider();
+		client.getCheckout.mockResolvedValue(checkout({ status: "PAID", transactions: [transaction()] }));
+		client.getTransaction.mockResolvedValue(transaction({
+			events: [{ id: 1, type: "REFUND", status: "REFUNDED", amount: 10, timestamp: "2026-10-02T10:00:00.000Z" }],
+		}));
+
+		const { data } = await provider.cancelPayment(input);
+
+		expect(client.refundTransaction).not.toHaveBeenCalled();
+		expect(data?.cancellation).toEqual(expect.objectContaining({ action: "refunded", refunded_amount: 0 }));
+	});
+
+	it("fails to cancel a paid checkout with cancelPolicy fail", async () => {
+		const { provider, client } = createProvider({ cancelPolicy: "fail" });
+		client.getCheckout.mockResolvedValue(checkout({ status: "PAID", transactions: [transaction()] }));
+
+		await expect(provider.cancelPayment(input)).rejects.toEqual(
+			expect.objectContaining({ type: MedusaError.Types.NOT_ALLOWED })
+		);
+		expect(client.refundTransaction).not.toHaveBeenCalled();
+		expect(client.deactivateCheckout).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,43 @@
+import type { CreateAccountHolderInput } from "@medusajs/framework/types";
+import { SUMUP_ERROR_CODES } from "../../types";
+import { SumUpError } from "../sumup-error";
+import { createProvider } from "./fixtures";
+
+jest.mock("../sumup-client");
+
+const input = {
+	context: {
+		customer: { id: "cus_1", email: "shopper@example.com", first_name: "Ada", last_name: "Lovelace" },
+	},
+} as CreateAccountHolderInput;
+
+describe("SumUpBase.createAccountHolder", () => {
+	it("creates a SumUp customer for the Medusa customer", async () => {
+		const { provider, client } = createProvider();
+		client.createCustomer.mockResolvedValue({ customer_id: "cus_1" });
+
+		expect(await provider.createAccountHolder(input)).toEqual({ id: "cus_1", data: { customer_id: "cus_1" } });
+		expect(client.createCustomer).toHaveBeenCalledWith(expect.objectContaining({ customer_id: "cus_1" }));
+	});
+
+	it("reuses the SumUp customer of a returning customer", async () => {
+		const { provider, client } = createProvider();
+		client.createCustomer.mockRejectedValue(new SumUpError(SUMUP_ERROR_CODES.DUPLICATE_CUSTOMER, "Conflict (HTTP 409)"));
+		client.getCustomer.mockResolvedValue({ customer_id: "cus_1", personal_details: { email: "shopper@example.com" } });
+
+		const result = await provider.createAccountHolder(input);
+
+		expect(client.getCustomer).toHaveBeenCalledWith("cus_1");
+		expect(result.id).toBe("cus_1");
+	});
+
+	it("fails on other errors", async () => {
+		const { provider, client } = createProvider();
+		client.createCustomer.mockRejectedValue(new SumUpError(SUMUP_ERROR_CODES.CHECKOUT_PROCESSED, "Conflict (HTTP 409)"));
+
+		await expect(provider.createAccountHolder(input)).rejects.toEqual(
+			expect.objectContaining({ code: SUMUP_ERROR_CODES.CHECKOUT_PROCESSED })
+		);
+		expect(client.getCustomer).not.toHaveBeenCalled();
+	});
+});
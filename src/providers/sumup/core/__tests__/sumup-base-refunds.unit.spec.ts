@@ -0,0 +1,91 @@
+import type { RefundPaymentInput } from "@medusajs/framework/types";
+import { MedusaError } from "@medusajs/framework/utils";
+import { SumUpTransaction } from "../../types";
+import { checkout, createProvider, transaction } from "./fixtures";
+
+jest.mock("../sumup-client");
+
+const refundInput = (amount: number, data: Record<string, unknown> = {}): RefundPaymentInput => ({
+	amount,
+	data: { id: "chk_1", ...data },
+});
+
+/**
+ * Sets up a paid EUR 10 checkout with a EUR 6 and a EUR 4 payment, answering
+ * transaction lookups with the given SumUp history
+ */
+function setUpSplitPayment(history: SumUpTransaction[] = []) {
+	const { provider, client, logger } = createProvider();
+	const transactions = [
+		transaction({ id: "txn_1", amount: 6 }),
+		transaction({ id: "txn_2", amount: 4 }),
+	];
+
+	client.getCheckout.mockResolvedValue(checkout({ status: "PAID", transactions }));
+	client.getTransaction.mockImplementation(async (id) =>
+		history.find((current) => current.id === id) || transactions.find((current) => current.id === id)!
+	);
+
+	return { provider, client, logger };
+}
+
+describe("SumUpBase.refundPayment", () => {
+	it("splits a refund across the checkout's payments and records each part", async () => {
+		const { provider, client } = setUpSplitPayment();
+
+		const { data } = await provider.refundPayment(refundInput(8));
+
+		expect(client.refundTransaction).toHaveBeenCalledWith("txn_1", { amount: 6 });
+		expect(client.refundTransaction).toHaveBeenCalledWith("txn_2", { amount: 2 });
+		expect(data?.refunds).toEqual([
+			expect.objectContaining({ transaction_id: "txn_1", amount: 6, status: "PENDING" }),
+			expect.objectContaining({ transaction_id: "txn_2", amount: 2, status: "PENDING" }),
+		]);
+		expect(data?.refunded_amount).toBe(8);
+	});
+
+	it("refunds the remaining balance after earlier refunds in the ledger", async () => {
+		const { provider, client } = setUpSplitPayment();
+
+		const { data } = await provider.refundPayment(refundInput(3, {
+			refunds: [{ transaction_id: "txn_1", amount: 5, currency: "EUR", status: "SUCCESSFUL", created_at: "" }],
+		}));
+
+		expect(client.refundTransaction).toHaveBeenCalledWith("txn_1", { amount: 1 });
+		expect(client.refundTransaction).toHaveBeenCalledWith("txn_2", { amount: 2 });
+		expect(data?.refunded_amount).toBe(8);
+	});
+
+	it("counts refunds of a split refund that failed partway, read back from SumUp", async () => {
+		const { provider, client } = setUpSplitPayment([
+			transaction({
+				id: "txn_1",
+				amount: 6,
+				events: [{ id: 7, type: "REFUND", status: "REFUNDED", amount: 6, timestamp: "2026-10-02T10:00:00.000Z" }],
+			}),
+		]);
+
+		await expect(provider.refundPayment(refundInput(5))).rejects.toEqual(
+			expect.objectContaining({ type: MedusaError.Types.NOT_ALLOWED })
+		);
+
+		const { data } = await provider.refundPayment(refundInput(4));
+
+		expect(client.refundTransaction).toHaveBeenCalledTimes(1);
+		expect(client.refundTransaction).toHaveBeenCalledWith("txn_2", { amount: 4 });
+		expect(data?.refunds).toEqual(expect.arrayContaining([
+			expect.objectContaining({ transaction_id: "txn_1", refund_id: "7", amount: 6, status: "SUCCESSFUL" }),
+		]));
+		expect(data?.refunded_amount).toBe(10);
+	});
+
+	it("reports the amount already refunded when a later part fails", async () => {
+		const { provider, client, logger } = setUpSplitPayment();
+		const failure = new Error("SumUp is unavailable");
+		client.refundTransaction.mockResolvedValueOnce(undefined).mockRejectedValueOnce(failure);
+
+		await expect(provider.refundPayment(refundInput(8))).rejects.toBe(failure);
+		expect(client.refundTransaction).toHaveBeenCalledTimes(2);
+		expect(logger.error).toHaveBeenCalledWith(expect.stringContaining("failed after refunding 6 EUR"));
+	});
+});
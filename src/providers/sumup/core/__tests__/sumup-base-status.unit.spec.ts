@@ -0,0 +1,77 @@
+import { PaymentSessionStatus } from "@medusajs/framework/utils";
+import { SUMUP_ERROR_CODES } from "../../types";
+import { checkout, createProvider, transaction } from "./fixtures";
+
+jest.mock("../sumup-client");
+
+describe("SumUpBase.getPaymentStatus", () => {
+	it.each([
+		["PAID", [transaction()], PaymentSessionStatus.CAPTURED],
+		["EXPIRED", [], PaymentSessionStatus.CANCELED],
+		["FAILED", [], PaymentSessionStatus.ERROR],
+		["PENDING", [], PaymentSessionStatus.PENDING],
+	] as const)("resolves a %s checkout to %s", async (checkoutStatus, transactions, status) => {
+		const { provider, client } = createProvider();
+		const current = checkout({ status: checkoutStatus, transactions: [...transactions] });
+		client.getCheckout.mockResolvedValue(current);
+
+		const result = await provider.getPaymentStatus({ data: { id: "chk_1" } });
+
+		expect(client.getCheckout).toHaveBeenCalledWith("chk_1");
+		expect(result).toEqual({
+			status,
+			data: { id: "chk_1", status: current.status, transactions: current.transactions },
+		});
+	});
+
+	it("stays pending after a declined attempt, recording the decline", async () => {
+		const { provider, client } = createProvider();
+		client.getCheckout.mockResolvedValue(checkout({ transactions: [transaction({ status: "FAILED" })] }));
+
+		const result = await provider.getPaymentStatus({ data: { id: "chk_1" } });
+
+		expect(result.status).toBe(PaymentSessionStatus.PENDING);
+		expect(result.data?.error).toEqual(expect.objectContaining({ code: SUMUP_ERROR_CODES.PAYMENT_DECLINED }));
+	});
+
+	it("authorizes a declined checkout as pending so the shopper can retry", async () => {
+		const { provider, client } = createProvider();
+		client.getCheckout.mockResolvedValue(checkout({ transactions: [transaction({ status: "FAILED" })] }));
+
+		const result = await provider.authorizePayment({ data: { id: "chk_1", next_step: { url: "https://3ds.test" } } });
+
+		expect(result.status).toBe(PaymentSessionStatus.REQUIRES_MORE);
+		expect(result.data?.error).toEqual(expect.objectContaining({ code: SUMUP_ERROR_CODES.PAYMENT_DECLINED }));
+	});
+
+	it("clears the decline once the shopper pays", async () => {
+		const { provider, client } = createProvider();
+		client.getCheckout.mockResolvedValue(checkout({ transactions: [transaction({ status: "FAILED" })] }));
+		const declined = await provider.getPaymentStatus({ data: { id: "chk_1" } });
+		client.getCheckout.mockResolvedValue(checkout({
+			status: "PAID",
+			transactions: [transaction({ status: "FAILED" }), transaction({ id: "txn_2" })],
+		}));
+
+		const result = await provider.getPaymentStatus({ data: declined.data });
+
+		expect(result.status).toBe(PaymentSessionStatus.CAPTURED);
+		expect(result.data?.error).toBeUndefined();
+	});
+
+	it("requires more while the shopper has a next step to complete", async () => {
+		const { provider, client } = createProvider();
+		client.getCheckout.mockResolvedValue(checkout());
+
+		const result = await provider.getPaymentStatus({ data: { id: "chk_1", next_step: { url: "https://3ds.test" } } });
+
+		expect(result.status).toBe(PaymentSessionStatus.REQUIRES_MORE);
+	});
+
+	it("is in error without a checkout", async () => {
+		const { provider, client } = createProvider();
+
+		expect(await provider.getPaymentStatus({ data: {} })).toEqual({ status: PaymentSessionStatus.ERROR });
+		expect(client.getCheckout).not.toHaveBeenCalled();
+	});
+});
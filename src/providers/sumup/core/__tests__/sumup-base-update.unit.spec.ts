@@ -0,0 +1,132 @@
+import type { UpdatePaymentInput } from "@medusajs/framework/types";
+import { MedusaError } from "@medusajs/framework/utils";
+import { SUMUP_ERROR_CODES, SumUpCheckoutData, SumUpCheckoutResponse } from "../../types";
+import { SumUpError } from "../sumup-error";
+import { checkout, createProvider } from "./fixtures";
+
+jest.mock("../sumup-client");
+
+const update = (amount: number): UpdatePaymentInput => ({
+	amount,
+	currency_code: "eur",
+	data: {
+		id: "chk_1",
+		session_id: "payses_1",
+		checkout_reference: "medusa-payses_1",
+		amount: 10,
+		currency: "EUR",
+	},
+});
+
+/**
+ * Sets up SumUp to hold the given checkouts, answering creations of their references with 409
+ */
+function setUpCheckouts(existing: SumUpCheckoutResponse[]) {
+	const { provider, client } = createProvider();
+
+	client.getCheckout.mockResolvedValue(existing[0]);
+	client.deactivateCheckout.mockImplementation(async (id) => checkout({ id, status: "EXPIRED" }));
+	client.listCheckouts.mockImplementation(async (reference) =>
+		existing.filter((current) => current.checkout_reference === reference)
+	);
+	client.createCheckout.mockImplementation(async (params: SumUpCheckoutData) => {
+		if (existing.some((current) => current.checkout_reference === params.checkout_reference)) {
+			throw new SumUpError(SUMUP_ERROR_CODES.DUPLICATE_CHECKOUT, "Conflict (HTTP 409)", { status: 409 });
+		}
+
+		return checkout({
+			id: `chk_${params.checkout_reference}`,
+			checkout_reference: params.checkout_reference,
+			amount: params.amount,
+			currency: params.currency,
+			valid_until: params.valid_until,
+		});
+	});
+
+	return { provider, client };
+}
+
+describe("SumUpBase.updatePayment", () => {
+	it("keeps the checkout while the total is unchanged", async () => {
+		const { provider, client } = setUpCheckouts([checkout()]);
+
+		expect(await provider.updatePayment(update(10))).toEqual({ data: update(10).data });
+		expect(client.createCheckout).not.toHaveBeenCalled();
+	});
+
+	it("creates the next revision of the checkout before deactivating the old one", async () => {
+		const { provider, client } = setUpCheckouts([checkout()]);
+
+		const { data } = await provider.updatePayment(update(15));
+
+		expect(client.createCheckout).toHaveBeenCalledWith(expect.objectContaining({
+			amount: 15,
+			currency: "EUR",
+			checkout_reference: "medusa-payses_1-r1",
+		}));
+		expect(client.deactivateCheckout).toHaveBeenCalledWith("chk_1");
+		expect(client.createCheckout.mock.invocationCallOrder[0])
+			.toBeLessThan(client.deactivateCheckout.mock.invocationCallOrder[0]);
+		expect(data).toEqual(expect.objectContaining({
+			id: "chk_medusa-payses_1-r1",
+			checkout_reference: "medusa-payses_1-r1",
+			amount: 15,
+			valid_until: expect.any(String),
+		}));
+	});
+
+	it("rejects updates of paid checkouts", async () => {
+		const { provider, client } = setUpCheckouts([checkout({ status: "PAID" })]);
+
+		await expect(provider.updatePayment(update(15))).rejects.toEqual(
+			expect.objectContaining({ type: MedusaError.Types.NOT_ALLOWED })
+		);
+		expect(client.createCheckout).not.toHaveBeenCalled();
+	});
+
+	it("deactivates the replacement when the old checkout can't be deactivated", async () => {
+		const { provider, client } = setUpCheckouts([checkout()]);
+		const paid = new SumUpError(SUMUP_ERROR_CODES.CHECKOUT_PROCESSED, "Conflict (HTTP 409)", { status: 409 });
+		client.deactivateCheckout.mockRejectedValueOnce(paid);
+
+		await expect(provider.updatePayment(update(15))).rejects.toBe(paid);
+		expect(client.deactivateCheckout).toHaveBeenLastCalledWith("chk_medusa-payses_1-r1");
+	});
+
+	it("skips a revision that was deactivated by a failed update", async () => {
+		const { provider, client } = setUpCheckouts([
+			checkout(),
+			checkout({ id: "chk_r1", checkout_reference: "medusa-payses_1-r1", amount: 15, status: "EXPIRED" }),
+		]);
+
+		const { data } = await provider.updatePayment(update(15));
+
+		expect(client.createCheckout).toHaveBeenLastCalledWith(expect.objectContaining({
+			checkout_reference: "medusa-payses_1-r2",
+		}));
+		expect(data?.id).toBe("chk_medusa-payses_1-r2");
+	});
+
+	it("skips a revision created for another total", async () => {
+		const { provider } = setUpCheckouts([
+			checkout(),
+			checkout({ id: "chk_r1", checkout_reference: "medusa-payses_1-r1", amount: 12 }),
+		]);
+
+		const { data } = await provider.updatePayment(update(15));
+
+		expect(data).toEqual(expect.objectContaining({ id: "chk_medusa-payses_1-r2", amount: 15 }));
+	});
+
+	it("reuses a pending revision for the same total", async () => {
+		const { provider, client } = setUpCheckouts([
+			checkout(),
+			checkout({ id: "chk_r1", checkout_reference: "medusa-payses_1-r1", amount: 15 }),
+		]);
+
+		const { data } = await provider.updatePayment(update(15));
+
+		expect(client.createCheckout).toHaveBeenCalledTimes(1);
+		expect(data?.id).toBe("chk_r1");
+	});
+});
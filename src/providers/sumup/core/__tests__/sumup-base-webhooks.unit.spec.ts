@@ -0,0 +1,130 @@
+import { PaymentActions } from "@medusajs/framework/utils";
+import { SUMUP_WEBHOOK_SIGNATURE_HEADER, SumUpWebhookPayload } from "../../types";
+import { checkout, createProvider, transaction } from "./fixtures";
+
+jest.mock("../sumup-client");
+
+const webhook = (overrides: Partial<SumUpWebhookPayload> = {}): SumUpWebhookPayload => ({
+	id: "evt_1",
+	event_type: "transaction_successful",
+	timestamp: "2026-10-01T10:00:00.000Z",
+	resource_type: "transaction",
+	resource: { id: "txn_1", status: "SUCCESSFUL", amount: 10, currency: "EUR" },
+	...overrides,
+});
+
+const signed = (data: SumUpWebhookPayload) => ({
+	data: data as unknown as Record<string, unknown>,
+	rawData: JSON.stringify(data),
+	headers: { [SUMUP_WEBHOOK_SIGNATURE_HEADER]: "signature" },
+});
+
+describe("SumUpBase.getWebhookActionAndData", () => {
+	describe("transaction events", () => {
+		it("finds the session through the checkout that lists the transaction", async () => {
+			const { provider, client } = createProvider();
+			client.validateWebhookSignature.mockReturnValue(true);
+			client.getTransaction.mockResolvedValue(transaction());
+			client.listCheckouts.mockResolvedValue([checkout({ status: "PAID", transactions: [transaction()] })]);
+
+			const result = await provider.getWebhookActionAndData(signed(webhook()));
+
+			expect(client.listCheckouts).toHaveBeenCalledWith("medusa-payses_1");
+			expect(result.action).toBe(PaymentActions.SUCCESSFUL);
+			expect(result.data?.session_id).toBe("payses_1");
+		});
+
+		it("trusts the checkout over the payload when verifying through the API", async () => {
+			const { provider, client } = createProvider({ webhookSecret: undefined });
+			client.getTransaction.mockResolvedValue(transaction());
+			client.listCheckouts.mockResolvedValue([checkout({ status: "PAID", amount: 12, transactions: [transaction()] })]);
+
+			const result = await provider.getWebhookActionAndData({
+				data: webhook({ event_type: "transaction_failed" }) as unknown as Record<string, unknown>,
+				rawData: "",
+				headers: {},
+			});
+
+			expect(result.action).toBe(PaymentActions.SUCCESSFUL);
+			expect(result.data?.session_id).toBe("payses_1");
+			expect(result.data?.amount.valueOf()).toBe(12);
+		});
+
+		it.each([
+			["isn't a checkout reference", "order-7", []],
+			["is missing", undefined, []],
+			["names a checkout without the transaction", "medusa-payses_1", [checkout({ transactions: [transaction({ id: "txn_2" })] })]],
+		])("fails for a transaction whose reference %s", async (_, reference, checkouts) => {
+			const { provider, client, logger } = createProvider();
+			client.validateWebhookSignature.mockReturnValue(true);
+			client.getTransaction.mockResolvedValue(transaction({ foreign_transaction_id: reference }));
+			client.listCheckouts.mockResolvedValue(checkouts);
+
+			const result = await provider.getWebhookActionAndData(signed(webhook()));
+
+			expect(result.action).toBe(PaymentActions.FAILED);
+			expect(result.data?.session_id).toBe("");
+			expect(logger.error).toHaveBeenCalledWith(
+				"Failed to process SumUp webhook",
+				expect.objectContaining({ message: expect.stringContaining("SumUp transaction txn_1") })
+			);
+		});
+	});
+
+	it("uses the checkout reference of checkout events", async () => {
+		const { provider, client } = createProvider();
+		client.validateWebhookSignature.mockReturnValue(true);
+
+		const result = await provider.getWebhookActionAndData(signed(webhook({
+			event_type: "checkout_paid",
+			resource_type: "checkout",
+			resource: { id: "chk_1", status: "PAID", amount: 10, currency: "EUR", checkout_reference: "medusa-payses_1" },
+		})));
+
+		expect(result.action).toBe(PaymentActions.SUCCESSFUL);
+		expect(result.data?.session_id).toBe("payses_1");
+		expect(client.getTransaction).not.toHaveBeenCalled();
+	});
+});
+
+describe("SumUpBase webhook verification", () => {
+	it.each([
+		["the signature header is missing", {}, true],
+		["the signature is invalid", { [SUMUP_WEBHOOK_SIGNATURE_HEADER]: "forged" }, false],
+	])("rejects signed webhooks when %s", async (_, headers, valid) => {
+		const { provider, client, logger } = createProvider();
+		client.validateWebhookSignature.mockReturnValue(valid);
+
+		const result = await provider.getWebhookActionAndData({ ...signed(webhook()), headers });
+
+		expect(result.action).toBe(PaymentActions.NOT_SUPPORTED);
+		expect(client.getTransaction).not.toHaveBeenCalled();
+		expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("Rejected SumUp webhook evt_1"));
+	});
+
+	it("checks the signature against the raw body", async () => {
+		const { provider, client } = createProvider();
+		client.validateWebhookSignature.mockReturnValue(false);
+		const payload = signed(webhook());
+
+		await provider.getWebhookActionAndData(payload);
+
+		expect(client.validateWebhookSignature).toHaveBeenCalledWith(payload.rawData, "signature");
+	});
+
+	it("reads the checkout of return_url callbacks from SumUp", async () => {
+		const { provider, client } = createProvider();
+		client.getCheckout.mockResolvedValue(checkout({ status: "PAID", transactions: [transaction()] }));
+
+		const result = await provider.getWebhookActionAndData({
+			data: { event_type: "CHECKOUT_STATUS_CHANGED", id: "chk_1" },
+			rawData: "",
+			headers: {},
+		});
+
+		expect(client.getCheckout).toHaveBeenCalledWith("chk_1");
+		expect(client.validateWebhookSignature).not.toHaveBeenCalled();
+		expect(result.action).toBe(PaymentActions.SUCCESSFUL);
+		expect(result.data?.session_id).toBe("payses_1");
+	});
+});
@@ -0,0 +1,51 @@
+import type { Logger } from "@medusajs/framework/types";
+import { MedusaError } from "@medusajs/framework/utils";
+import { SUMUP_ERROR_CODES } from "../../types";
+import { SumUpClient } from "../sumup-client";
+import { PROVIDER_OPTIONS } from "./fixtures";
+
+const conflict = { status: 409, error: { message: "Conflict" } };
+
+function createClient() {
+	const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+	const client = new SumUpClient(PROVIDER_OPTIONS, logger as unknown as Logger);
+
+	return { client, sdk: client["client"] };
+}
+
+describe("SumUpClient conflicts", () => {
+	it("maps a 409 on checkout creation to a duplicate checkout", async () => {
+		const { client, sdk } = createClient();
+		jest.spyOn(sdk.checkouts, "create").mockRejectedValue(conflict);
+
+		await expect(client.createCheckout({
+			amount: 10,
+			currency: "EUR",
+			checkout_reference: "medusa-payses_1",
+			merchant_code: "MCODE",
+		})).rejects.toEqual(expect.objectContaining({
+			code: SUMUP_ERROR_CODES.DUPLICATE_CHECKOUT,
+			type: MedusaError.Types.DUPLICATE_ERROR,
+		}));
+	});
+
+	it("maps a 409 on customer creation to a duplicate customer", async () => {
+		const { client, sdk } = createClient();
+		jest.spyOn(sdk.customers, "create").mockRejectedValue(conflict);
+
+		await expect(client.createCustomer({ customer_id: "cus_1" })).rejects.toEqual(expect.objectContaining({
+			code: SUMUP_ERROR_CODES.DUPLICATE_CUSTOMER,
+			type: MedusaError.Types.DUPLICATE_ERROR,
+		}));
+	});
+
+	it("keeps other 409 responses as conflicts with the checkout", async () => {
+		const { client, sdk } = createClient();
+		jest.spyOn(sdk.checkouts, "deactivate").mockRejectedValue(conflict);
+
+		await expect(client.deactivateCheckout("chk_1")).rejects.toEqual(expect.objectContaining({
+			code: SUMUP_ERROR_CODES.CHECKOUT_PROCESSED,
+			type: MedusaError.Types.CONFLICT,
+		}));
+	});
+});
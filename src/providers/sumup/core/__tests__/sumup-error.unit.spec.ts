@@ -0,0 +1,48 @@
+import { MedusaError } from "@medusajs/framework/utils";
+import { SUMUP_ERROR_CODES } from "../../types";
+import { SumUpError } from "../sumup-error";
+
+describe("SumUpError.fromResponse", () => {
+	it.each([
+		[409, { error_code: "DUPLICATED_CHECKOUT" }, SUMUP_ERROR_CODES.DUPLICATE_CHECKOUT, MedusaError.Types.DUPLICATE_ERROR],
+		[409, { error_code: "CHECKOUT_PROCESSED" }, SUMUP_ERROR_CODES.CHECKOUT_PROCESSED, MedusaError.Types.CONFLICT],
+		[409, {}, SUMUP_ERROR_CODES.CHECKOUT_PROCESSED, MedusaError.Types.CONFLICT],
+		[409, { error_code: "CHECKOUT_EXPIRED" }, SUMUP_ERROR_CODES.CHECKOUT_EXPIRED, MedusaError.Types.UNEXPECTED_STATE],
+		[400, { error_code: "CHECKOUT_PROCESSED" }, SUMUP_ERROR_CODES.CHECKOUT_PROCESSED, MedusaError.Types.CONFLICT],
+		[402, {}, SUMUP_ERROR_CODES.PAYMENT_DECLINED, MedusaError.Types.PAYMENT_AUTHORIZATION_ERROR],
+		[400, { param: "card.cvv" }, SUMUP_ERROR_CODES.INVALID_CARD, MedusaError.Types.INVALID_DATA],
+		[404, {}, SUMUP_ERROR_CODES.NOT_FOUND, MedusaError.Types.NOT_FOUND],
+		[401, {}, SUMUP_ERROR_CODES.PROVIDER_UNAVAILABLE, MedusaError.Types.UNEXPECTED_STATE],
+		[429, {}, SUMUP_ERROR_CODES.PROVIDER_UNAVAILABLE, MedusaError.Types.UNEXPECTED_STATE],
+		[502, {}, SUMUP_ERROR_CODES.PROVIDER_UNAVAILABLE, MedusaError.Types.UNEXPECTED_STATE],
+		[422, {}, SUMUP_ERROR_CODES.INVALID_REQUEST, MedusaError.Types.INVALID_DATA],
+		[418, {}, SUMUP_ERROR_CODES.PAYMENT_FAILED, MedusaError.Types.PAYMENT_AUTHORIZATION_ERROR],
+	])("classifies HTTP %i with %j as %s", (status, body, code, type) => {
+		const error = SumUpError.fromResponse(status, { message: "Conflict", ...body });
+
+		expect(error.code).toBe(code);
+		expect(error.type).toBe(type);
+		expect(error.status).toBe(status);
+	});
+
+	it("keeps what SumUp reported in the details", () => {
+		const error = SumUpError.fromResponse(409, [{ message: "Already processed", error_code: "CHECKOUT_PROCESSED" }]);
+
+		expect(error.message).toBe("The payment has already been processed");
+		expect(error.details).toBe("Already processed (HTTP 409, CHECKOUT_PROCESSED)");
+	});
+});
+
+describe("SumUpError.withCode", () => {
+	it("reclassifies the error and keeps the response details", () => {
+		const error = SumUpError.fromResponse(409, { message: "Conflict" }, 1000)
+			.withCode(SUMUP_ERROR_CODES.DUPLICATE_CHECKOUT);
+
+		expect(error).toBeInstanceOf(SumUpError);
+		expect(error.code).toBe(SUMUP_ERROR_CODES.DUPLICATE_CHECKOUT);
+		expect(error.type).toBe(MedusaError.Types.DUPLICATE_ERROR);
+		expect(error.status).toBe(409);
+		expect(error.retryAfter).toBe(1000);
+		expect(error.details).toBe("Conflict (HTTP 409)");
+	});
+});
@@ -0,0 +1,73 @@
+import type { BigNumberInput } from "@medusajs/framework/types";
+import { BigNumber, MathBN, MedusaError } from "@medusajs/framework/utils";
+import { BigNumber as BigNumberJS } from "bignumber.js";
+import { SUMUP_SUPPORTED_CURRENCIES, SumUpSupportedCurrency } from "../types";
+
+/**
+ * Currencies SumUp charges without minor units
+ */
+const ZERO_DECIMAL_CURRENCIES: string[] = ["CLP", "HUF"];
+
+/**
+ * Whether SumUp can charge the currency
+ */
+export function isSupportedCurrency(currency?: string): currency is SumUpSupportedCurrency {
+	return SUMUP_SUPPORTED_CURRENCIES.includes(currency?.toUpperCase() as SumUpSupportedCurrency);
+}
+
+/**
+ * Ensures SumUp can charge the currency
+ * @returns The currency code in the upper case SumUp expects
+ * @throws {MedusaError} If the currency is not supported
+ */
+export function assertSupportedCurrency(currency?: string): SumUpSupportedCurrency {
+	if (!isSupportedCurrency(currency)) {
+		throw new MedusaError(
+			MedusaError.Types.INVALID_DATA,
+			`Currency ${currency?.toUpperCase() || "(none)"} is not supported by SumUp. Supported currencies: ${SUMUP_SUPPORTED_CURRENCIES.join(", ")}`
+		);
+	}
+
+	return currency.toUpperCase() as SumUpSupportedCurrency;
+}
+
+/**
+ * Number of decimals SumUp accepts for amounts in the currency
+ */
+export function getCurrencyDecimals(currency?: string): number {
+	return ZERO_DECIMAL_CURRENCIES.includes(currency?.toUpperCase() ?? "") ? 0 : 2;
+}
+
+/**
+ * Lists the currencies SumUp supports with their decimals
+ */
+export function getSupportedCurrencies(): Array<{ code: SumUpSupportedCurrency; decimals: number }> {
+	return SUMUP_SUPPORTED_CURRENCIES.map((code) => ({
+		code,
+		decimals: getCurrencyDecimals(code),
+	}));
+}
+
+/**
+ * Converts a Medusa amount to the SumUp amount, rounded to the currency's decimals.
+ * Both use major units, e.g. 10.5 for EUR 10.50.
+ */
+export function toSumUpAmount(amount: BigNumberInput, currency?: string): number {
+	return MathBN.convert(amount)
+		.decimalPlaces(getCurrencyDecimals(currency), BigNumberJS.ROUND_HALF_UP)
+		.toNumber();
+}
+
+/**
+ * Converts a SumUp amount to a Medusa amount, rounded to the currency's decimals
+ */
+export function fromSumUpAmount(amount: number | undefined, currency?: string): BigNumber {
+	return new BigNumber(toSumUpAmount(amount ?? 0, currency));
+}
+
+/**
+ * Formats an amount with exactly the currency's decimals, e.g. "10.50" for EUR
+ */
+export function formatSumUpAmount(amount: BigNumberInput, currency?: string): string {
+	return MathBN.convert(amount).toFixed(getCurrencyDecimals(currency), BigNumberJS.ROUND_HALF_UP);
+}
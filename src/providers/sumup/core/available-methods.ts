@@ -0,0 +1,73 @@
+import { PaymentProviderKeys } from "../types";
+import { SumUpClient } from "./sumup-client";
+
+export const DEFAULT_PAYMENT_METHODS_TTL = 60 * 1000;
+
+/**
+ * SumUp payment method each provider charges with. The hosted checkout offers
+ * whatever is available, so it only needs one method.
+ */
+const PROVIDER_PAYMENT_METHODS: Record<string, string | undefined> = {
+	[PaymentProviderKeys.SUMUP_HOSTED_CHECKOUT]: undefined,
+	[PaymentProviderKeys.SUMUP_CARD]: "card",
+	[PaymentProviderKeys.SUMUP_APPLE_PAY]: "apple_pay",
+	[PaymentProviderKeys.SUMUP_GOOGLE_PAY]: "google_pay",
+	[PaymentProviderKeys.SUMUP_PAYPAL]: "paypal",
+};
+
+type CachedPaymentMethods = {
+	methods: Promise<string[]>;
+	expiresAt: number;
+};
+
+/**
+ * Available payment methods by merchant, amount and currency
+ */
+const paymentMethods = new Map<string, CachedPaymentMethods>();
+
+/**
+ * Returns the ids of the payment methods SumUp offers the merchant for an amount and
+ * currency, cached for `ttl` milliseconds. Failed requests aren't cached.
+ */
+export function getAvailablePaymentMethods(
+	client: SumUpClient,
+	merchantCode: string,
+	amount: number,
+	currency: string,
+	ttl = DEFAULT_PAYMENT_METHODS_TTL
+): Promise<string[]> {
+	const key = `${merchantCode}:${currency}:${amount}`;
+	const now = Date.now();
+
+	for (const [cachedKey, cached] of paymentMethods) {
+		if (cached.expiresAt <= now) {
+			paymentMethods.delete(cachedKey);
+		}
+	}
+
+	const cached = paymentMethods.get(key);
+	if (cached) {
+		return cached.methods;
+	}
+
+	const methods = client.getAvailablePaymentMethods(merchantCode, amount, currency)
+		.then((response) => (response.available_payment_methods || []).map((method) => method.id));
+
+	paymentMethods.set(key, { methods, expiresAt: now + ttl });
+
+	methods.catch(() => {
+		if (paymentMethods.get(key)?.methods === methods) {
+			paymentMethods.delete(key);
+		}
+	});
+
+	return methods;
+}
+
+/**
+ * Whether a provider can charge with one of the available payment methods
+ */
+export function isProviderAvailable(identifier: string, methods: string[]): boolean {
+	const method = PROVIDER_PAYMENT_METHODS[identifier];
+	return method ? methods.includes(method) : methods.length > 0;
+}
@@ -0,0 +1,70 @@
+import type { MedusaContainer } from "@medusajs/framework/types";
+import { ContainerRegistrationKeys } from "@medusajs/framework/utils";
+import { PaymentProviderKeys, SumUpTransaction } from "../types";
+import { getPaymentProviderId } from "./resolve-provider";
+
+/**
+ * A Medusa payment made through SumUp, with the order it belongs to
+ * @property transaction_codes - Codes of the SumUp transactions stored in the payment data
+ */
+export type CapturedSumUpPayment = {
+	id: string;
+	order_id?: string;
+	currency_code: string;
+	data: Record<string, unknown>;
+	transaction_codes: string[];
+};
+
+type PaymentRow = {
+	id: string;
+	currency_code: string;
+	data: Record<string, unknown> | null;
+	payment_collection_id: string;
+};
+
+type OrderCollectionRow = {
+	order_id: string;
+	payment_collection_id: string;
+};
+
+/**
+ * Lists the Medusa payments of all SumUp providers captured in a period
+ */
+export async function listCapturedSumUpPayments(
+	container: MedusaContainer,
+	from: Date,
+	to: Date
+): Promise<CapturedSumUpPayment[]> {
+	const query = container.resolve(ContainerRegistrationKeys.QUERY);
+
+	const { data: payments }: { data: PaymentRow[] } = await query.graph({
+		entity: "payment",
+		fields: ["id", "currency_code", "data", "payment_collection_id"],
+		filters: {
+			provider_id: Object.values(PaymentProviderKeys).map(getPaymentProviderId),
+			captured_at: { $gte: from.toISOString(), $lt: to.toISOString() },
+		},
+	});
+
+	const collectionIds = [...new Set(payments.map((payment) => payment.payment_collection_id))];
+	const { data: orderCollections }: { data: OrderCollectionRow[] } = collectionIds.length
+		? await query.graph({
+			entity: "order_payment_collection",
+			fields: ["order_id", "payment_collection_id"],
+			filters: { payment_collection_id: collectionIds },
+		})
+		: { data: [] };
+
+	const orders = new Map<string, string>(
+		orderCollections.map((link) => [link.payment_collection_id, link.order_id])
+	);
+
+	return payments.map((payment) => ({
+		id: payment.id,
+		order_id: orders.get(payment.payment_collection_id),
+		currency_code: payment.currency_code,
+		data: payment.data || {},
+		transaction_codes: ((payment.data?.transactions || []) as SumUpTransaction[])
+			.map((transaction) => transaction.transaction_code),
+	}));
+}
@@ -0,0 +1,42 @@
+/**
+ * Prefix of checkout references that encode a Medusa payment session id
+ */
+const CHECKOUT_REFERENCE_PREFIX = "medusa-";
+
+/**
+ * Separates the session id from the revision of a re-created checkout
+ */
+const CHECKOUT_REVISION_SEPARATOR = "-r";
+
+const CHECKOUT_REVISION_PATTERN = new RegExp(`${CHECKOUT_REVISION_SEPARATOR}(\\d+)$`);
+
+/**
+ * Derives the SumUp checkout reference from a Medusa payment session id. Checkouts
+ * re-created for the same session get a revision suffix, as references must be unique.
+ */
+export function toCheckoutReference(sessionId: string, revision = 0): string {
+	const suffix = revision > 0 ? `${CHECKOUT_REVISION_SEPARATOR}${revision}` : "";
+	return `${CHECKOUT_REFERENCE_PREFIX}${sessionId}${suffix}`;
+}
+
+/**
+ * Decodes the Medusa payment session id from a SumUp checkout reference
+ * @returns The session id, or undefined if the reference wasn't created from one
+ */
+export function toSessionId(checkoutReference?: string): string | undefined {
+	if (!checkoutReference?.startsWith(CHECKOUT_REFERENCE_PREFIX)) {
+		return;
+	}
+
+	return checkoutReference
+		.slice(CHECKOUT_REFERENCE_PREFIX.length)
+		.replace(CHECKOUT_REVISION_PATTERN, "") || undefined;
+}
+
+/**
+ * Decodes the revision of a SumUp checkout reference, 0 for the session's first checkout
+ */
+export function toCheckoutRevision(checkoutReference?: string): number {
+	const match = checkoutReference?.match(CHECKOUT_REVISION_PATTERN);
+	return match ? Number(match[1]) : 0;
+}
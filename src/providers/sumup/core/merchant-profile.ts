@@ -0,0 +1,119 @@
+import { createHash } from "crypto";
+import type { Logger } from "@medusajs/framework/types";
+import { ProviderOptions, SUMUP_API_ENDPOINTS, SumUpMerchantProfile } from "../types";
+import { SumUpClient } from "./sumup-client";
+
+export const DEFAULT_MERCHANT_PROFILE_TTL = 60 * 60 * 1000;
+
+type CachedMerchantProfile = {
+	profile: Promise<SumUpMerchantProfile>;
+	expiresAt: number;
+};
+
+/**
+ * Merchant profiles by account, shared by the providers using the same API key
+ */
+const profiles = new Map<string, CachedMerchantProfile>();
+
+/**
+ * Startup checks already run per account and environment
+ */
+const checked = new Set<string>();
+
+/**
+ * Runs a startup check once for all providers configured with the same account and
+ * environment, as every payment method registers its own provider with the same options.
+ * A check that throws isn't recorded, so the next provider runs it again.
+ */
+export function runOncePerAccount(options: ProviderOptions, name: string, check: () => void): void {
+	const key = `${toCacheKey(options)}:${options.environment || "test"}:${name}`;
+
+	if (checked.has(key)) {
+		return;
+	}
+
+	check();
+	checked.add(key);
+}
+
+/**
+ * Returns the merchant profile of the account, fetching it once per `merchantProfileTtl`.
+ * Concurrent callers share the same request, and failed requests aren't cached.
+ */
+export function getMerchantProfile(
+	client: SumUpClient,
+	options: ProviderOptions,
+	logger: Logger
+): Promise<SumUpMerchantProfile> {
+	const key = toCacheKey(options);
+	const cached = profiles.get(key);
+
+	if (cached && cached.expiresAt > Date.now()) {
+		return cached.profile;
+	}
+
+	const profile = fetchMerchantProfile(client, logger);
+	profiles.set(key, {
+		profile,
+		expiresAt: Date.now() + (options.merchantProfileTtl ?? DEFAULT_MERCHANT_PROFILE_TTL),
+	});
+
+	profile.catch(() => {
+		if (profiles.get(key)?.profile === profile) {
+			profiles.delete(key);
+		}
+	});
+
+	return profile;
+}
+
+/**
+ * Returns the environment an API key belongs to, if its prefix tells
+ */
+export function getApiKeyEnvironment(apiKey: string): ProviderOptions["environment"] | undefined {
+	if (apiKey.startsWith("sup_sk_test_")) {
+		return "test";
+	}
+
+	if (apiKey.startsWith("sup_sk_live_")) {
+		return "live";
+	}
+}
+
+/**
+ * Fetches the merchant and the payment methods enabled for it. The payment methods
+ * are left empty if they can't be listed.
+ */
+async function fetchMerchantProfile(client: SumUpClient, logger: Logger): Promise<SumUpMerchantProfile> {
+	const merchant = await client.getMerchant();
+
+	if (!merchant.merchant_code) {
+		throw new Error("Merchant code not found in API response");
+	}
+
+	let paymentMethods: string[] = [];
+	try {
+		const methods = await client.getAvailablePaymentMethods(
+			merchant.merchant_code,
+			undefined,
+			merchant.default_currency
+		);
+		paymentMethods = (methods.available_payment_methods || []).map((method) => method.id);
+	} catch (error) {
+		logger.warn(`Could not list SumUp payment methods of merchant ${merchant.merchant_code}: ${error.message}`);
+	}
+
+	return {
+		...merchant,
+		payment_methods: paymentMethods,
+		fetched_at: new Date().toISOString(),
+	};
+}
+
+/**
+ * Identifies the account without keeping the API key itself in memory twice
+ */
+function toCacheKey(options: ProviderOptions): string {
+	const host = options.host || SUMUP_API_ENDPOINTS.PRODUCTION;
+	return createHash("sha256").update(`${host}:${options.apiKey}`).digest("hex");
+}
@@ -0,0 +1,57 @@
+import type {
+	IPaymentModuleService,
+	PaymentDTO,
+	PaymentSessionDTO,
+	PaymentSessionStatus,
+} from "@medusajs/framework/types";
+
+/**
+ * The payment module's `updatePayment` stores every payment field it is given,
+ * while `UpdatePaymentDTO` only declares the id
+ */
+type PaymentDataWriter = {
+	updatePayment(data: { id: string; data: Record<string, unknown> }): Promise<PaymentDTO>;
+};
+
+/**
+ * Merges fields into a payment's data. The data is read right before writing, so
+ * fields stored since the caller loaded the payment aren't overwritten.
+ */
+export async function mergePaymentData(
+	paymentModule: IPaymentModuleService,
+	id: string,
+	fields: Record<string, unknown>
+): Promise<PaymentDTO> {
+	const payment = await paymentModule.retrievePayment(id, { select: ["id", "data"] });
+	const writer: PaymentDataWriter = paymentModule;
+
+	return writer.updatePayment({ id, data: { ...payment.data, ...fields } });
+}
+
+/**
+ * The payment module's generated `updatePaymentSessions` writes the session record alone,
+ * without running the provider's `updatePayment` like `updatePaymentSession`, but
+ * `IPaymentModuleService` doesn't declare it
+ */
+type PaymentSessionStatusWriter = {
+	updatePaymentSessions(data: {
+		id: string;
+		status: PaymentSessionStatus;
+		data: Record<string, unknown>;
+	}): Promise<PaymentSessionDTO>;
+};
+
+/**
+ * Sets a session's status and data without involving the provider, for sessions
+ * whose checkout SumUp already settled
+ */
+export async function updatePaymentSessionStatus(
+	paymentModule: IPaymentModuleService,
+	id: string,
+	status: PaymentSessionStatus,
+	data: Record<string, unknown>
+): Promise<PaymentSessionDTO> {
+	const writer = paymentModule as unknown as PaymentSessionStatusWriter;
+
+	return writer.updatePaymentSessions({ id, status, data });
+}
@@ -0,0 +1,137 @@
+import { PaymentActions, PaymentSessionStatus } from "@medusajs/framework/utils";
+import { SumUpCheckoutResponse, SumUpTransaction } from "../types";
+
+/**
+ * Checkout status and transactions of a SumUp payment, as far as they are known
+ */
+export type SumUpPaymentState = {
+	status: SumUpCheckoutResponse["status"];
+	transactions?: Array<Pick<SumUpTransaction, "status">>;
+};
+
+/**
+ * Options that decide between statuses SumUp itself doesn't distinguish
+ * @property awaitingShopper - Whether the shopper still has to complete a `next_step`, such as 3DS or a PayPal redirect
+ */
+export type PaymentStatusOptions = {
+	awaitingShopper?: boolean;
+};
+
+/**
+ * Checkout state each webhook event reports
+ */
+const WEBHOOK_EVENT_STATES: Record<string, SumUpPaymentState> = {
+	checkout_paid: { status: "PAID" },
+	checkout_failed: { status: "FAILED" },
+	checkout_cancelled: { status: "EXPIRED" },
+	checkout_expired: { status: "EXPIRED" },
+	transaction_successful: { status: "PENDING", transactions: [{ status: "SUCCESSFUL" }] },
+	transaction_failed: { status: "PENDING", transactions: [{ status: "FAILED" }] },
+	transaction_cancelled: { status: "PENDING", transactions: [{ status: "CANCELLED" }] },
+	payment_captured: { status: "PENDING", transactions: [{ status: "SUCCESSFUL" }] },
+	payment_failed: { status: "PENDING", transactions: [{ status: "FAILED" }] },
+	payment_cancelled: { status: "PENDING", transactions: [{ status: "CANCELLED" }] },
+};
+
+/**
+ * Resolves the Medusa payment session status of a SumUp payment:
+ *
+ * - A successful transaction or a `PAID` checkout is captured, since SumUp charges the
+ *   shopper right away. If every transaction was cancelled, it is canceled.
+ * - A `FAILED` checkout is in error and an `EXPIRED` one is canceled.
+ * - A `PENDING` checkout is canceled when its latest transaction was `CANCELLED`.
+ *   Otherwise, including after a `FAILED` attempt the shopper can retry, it requires
+ *   more while the shopper has a `next_step` to complete, and is pending until then.
+ */
+export function resolvePaymentStatus(
+	state: SumUpPaymentState,
+	options: PaymentStatusOptions = {}
+): PaymentSessionStatus {
+	const transactions = state.transactions || [];
+	const succeeded = transactions.some((transaction) => transaction.status === "SUCCESSFUL");
+
+	if (state.status === "PAID" || succeeded) {
+		const reversed = !succeeded && transactions.length > 0 &&
+			transactions.every((transaction) => transaction.status === "CANCELLED");
+
+		if (reversed) {
+			return PaymentSessionStatus.CANCELED;
+		}
+
+		return PaymentSessionStatus.CAPTURED;
+	}
+
+	switch (state.status) {
+		case "FAILED":
+			return PaymentSessionStatus.ERROR;
+
+		case "EXPIRED":
+			return PaymentSessionStatus.CANCELED;
+
+		default:
+			if (transactions[transactions.length - 1]?.status === "CANCELLED") {
+				return PaymentSessionStatus.CANCELED;
+			}
+
+			return options.awaitingShopper
+				? PaymentSessionStatus.REQUIRES_MORE
+				: PaymentSessionStatus.PENDING;
+	}
+}
+
+/**
+ * Whether the latest attempt to pay a checkout that is still open was declined
+ */
+export function isDeclinedAttempt(state: SumUpPaymentState): boolean {
+	const transactions = state.transactions || [];
+
+	return state.status === "PENDING" &&
+		transactions[transactions.length - 1]?.status === "FAILED" &&
+		!transactions.some((transaction) => transaction.status === "SUCCESSFUL");
+}
+
+/**
+ * Whether the shopper has paid, regardless of whether the payment is captured yet
+ */
+export function isPaidStatus(status: string): boolean {
+	return status === PaymentSessionStatus.AUTHORIZED || status === PaymentSessionStatus.CAPTURED;
+}
+
+/**
+ * Whether the payment can't be paid anymore
+ */
+export function isFinalUnpaidStatus(status: string): boolean {
+	return status === PaymentSessionStatus.ERROR || status === PaymentSessionStatus.CANCELED;
+}
+
+/**
+ * Returns the checkout state a webhook event reports, or undefined for events the provider doesn't handle
+ */
+export function getWebhookEventState(eventType: string): SumUpPaymentState | undefined {
+	return Object.prototype.hasOwnProperty.call(WEBHOOK_EVENT_STATES, eventType)
+		? WEBHOOK_EVENT_STATES[eventType]
+		: undefined;
+}
+
+/**
+ * Maps a payment session status to the webhook action Medusa should take. Payments
+ * that are still in progress are left alone until SumUp reports an outcome.
+ */
+export function toWebhookAction(status: PaymentSessionStatus): PaymentActions {
+	switch (status) {
+		case PaymentSessionStatus.CAPTURED:
+			return PaymentActions.SUCCESSFUL;
+
+		case PaymentSessionStatus.AUTHORIZED:
+			return PaymentActions.AUTHORIZED;
+
+		case PaymentSessionStatus.ERROR:
+			return PaymentActions.FAILED;
+
+		case PaymentSessionStatus.CANCELED:
+			return PaymentActions.CANCELED;
+
+		default:
+			return PaymentActions.NOT_SUPPORTED;
+	}
+}
@@ -0,0 +1,84 @@
+import { MathBN } from "@medusajs/framework/utils";
+import { SumUpPayout, SumUpSettlement } from "../types";
+import { toSumUpAmount } from "./amount";
+
+/**
+ * A SumUp payout with the lines it is made of
+ * @property amount - Amount paid out, after fees and deductions
+ */
+export type PayoutSummary = {
+	id: string;
+	date: string;
+	currency: string;
+	amount: number;
+	fee: number;
+	lines: SumUpPayout[];
+};
+
+/**
+ * Groups payout lines by the transaction they belong to. Lines without a
+ * transaction code aren't tied to a payment and are left out.
+ */
+export function groupPayoutsByTransaction(lines: SumUpPayout[]): Map<string, SumUpPayout[]> {
+	const groups = new Map<string, SumUpPayout[]>();
+
+	for (const line of lines) {
+		if (!line.transaction_code || line.status === "FAILED") {
+			continue;
+		}
+
+		groups.set(line.transaction_code, [...(groups.get(line.transaction_code) || []), line]);
+	}
+
+	return groups;
+}
+
+/**
+ * Groups payout lines into the payouts they belong to
+ */
+export function groupPayouts(lines: SumUpPayout[]): PayoutSummary[] {
+	const payouts = new Map<string, SumUpPayout[]>();
+
+	for (const line of lines) {
+		payouts.set(line.id, [...(payouts.get(line.id) || []), line]);
+	}
+
+	return [...payouts.entries()].map(([id, payoutLines]) => {
+		const currency = payoutLines[0].currency;
+		const paid = payoutLines.filter((line) => line.status !== "FAILED");
+
+		return {
+			id,
+			date: payoutLines[0].date,
+			currency,
+			amount: toSumUpAmount(MathBN.sum(0, ...paid.map(getNetAmount)), currency),
+			fee: toSumUpAmount(MathBN.sum(0, ...paid.map((line) => line.fee)), currency),
+			lines: payoutLines,
+		};
+	});
+}
+
+/**
+ * Sums the payout lines of a payment's transactions into its settlement. The payout
+ * id and date are those of the line that paid the transaction out.
+ */
+export function toSettlement(lines: SumUpPayout[], currency: string): SumUpSettlement {
+	const payout = lines.find((line) => line.type === "PAYOUT") || lines[0];
+
+	return {
+		payout_id: payout?.id,
+		payout_date: payout?.date,
+		currency,
+		fee_amount: toSumUpAmount(MathBN.sum(0, ...lines.map((line) => line.fee)), currency),
+		net_amount: toSumUpAmount(MathBN.sum(0, ...lines.map(getNetAmount)), currency),
+		payouts: lines,
+		imported_at: new Date().toISOString(),
+	};
+}
+
+/**
+ * Amount a payout line adds to the payout, negative for deductions
+ */
+function getNetAmount(line: SumUpPayout): number {
+	return line.type === "PAYOUT" ? line.amount : -Math.abs(line.amount);
+}
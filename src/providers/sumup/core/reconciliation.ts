@@ -0,0 +1,242 @@
+import { MathBN } from "@medusajs/framework/utils";
+import { SumUpTransaction } from "../types";
+import { toSumUpAmount } from "./amount";
+import { toSessionId } from "./checkout-reference";
+
+/**
+ * Ways SumUp and Medusa can disagree about a payment
+ */
+export const RECONCILIATION_ISSUES = {
+	NOT_CAPTURED: "not_captured",
+	AMOUNT_MISMATCH: "amount_mismatch",
+	REFUND_MISSING_IN_MEDUSA: "refund_missing_in_medusa",
+	REFUND_MISSING_IN_SUMUP: "refund_missing_in_sumup",
+	ORPHANED_CHECKOUT: "orphaned_checkout",
+	MISSING_IN_SUMUP: "missing_in_sumup",
+} as const;
+
+export type ReconciliationIssue = typeof RECONCILIATION_ISSUES[keyof typeof RECONCILIATION_ISSUES];
+
+/**
+ * A SumUp payment session as Medusa recorded it, with amounts in the currency's major unit
+ * @property payment_id - The Medusa payment, unset if the session was never authorized
+ * @property refunded_amount - Amount refunded of the Medusa payment
+ */
+export type ReconciliationPayment = {
+	session_id: string;
+	payment_id?: string;
+	order_id?: string;
+	currency_code: string;
+	amount: number;
+	captured_amount: number;
+	refunded_amount: number;
+	transaction_ids: string[];
+	transaction_codes: string[];
+};
+
+/**
+ * One line of the report: the SumUp transactions of a payment session matched to its Medusa payment
+ */
+export type ReconciliationEntry = {
+	session_id?: string;
+	payment_id?: string;
+	order_id?: string;
+	checkout_reference?: string;
+	transaction_codes: string[];
+	timestamp?: string;
+	currency: string;
+	sumup_amount: number;
+	sumup_refunded_amount: number;
+	medusa_amount: number;
+	medusa_captured_amount: number;
+	medusa_refunded_amount: number;
+	issues: ReconciliationIssue[];
+};
+
+export type ReconciliationReport = {
+	from: string;
+	to: string;
+	generated_at: string;
+	summary: {
+		entries: number;
+		matched: number;
+		mismatched: number;
+		issues: Partial<Record<ReconciliationIssue, number>>;
+	};
+	entries: ReconciliationEntry[];
+};
+
+/**
+ * Transaction statuses of payments that were charged, refunded ones included
+ */
+const CHARGED_STATUSES = ["SUCCESSFUL", "REFUNDED"];
+
+const CSV_COLUMNS: Array<keyof ReconciliationEntry> = [
+	"session_id",
+	"payment_id",
+	"order_id",
+	"checkout_reference",
+	"transaction_codes",
+	"timestamp",
+	"currency",
+	"sumup_amount",
+	"sumup_refunded_amount",
+	"medusa_amount",
+	"medusa_captured_amount",
+	"medusa_refunded_amount",
+	"issues",
+];
+
+/**
+ * Matches charged SumUp transactions to Medusa payments, by the session id encoded
+ * in the checkout reference or else by transaction id or code, and flags mismatches.
+ * Captured Medusa payments without a SumUp transaction are reported as missing in SumUp.
+ */
+export function reconcileTransactions(
+	transactions: SumUpTransaction[],
+	payments: ReconciliationPayment[],
+	period: { from: Date; to: Date }
+): ReconciliationReport {
+	const bySession = new Map(payments.map((payment) => [payment.session_id, payment]));
+	const byTransaction = new Map<string, ReconciliationPayment>();
+
+	for (const payment of payments) {
+		[...payment.transaction_ids, ...payment.transaction_codes].forEach((key) => byTransaction.set(key, payment));
+	}
+
+	const groups = new Map<string, { payment?: ReconciliationPayment; transactions: SumUpTransaction[] }>();
+
+	for (const transaction of transactions) {
+		if (!CHARGED_STATUSES.includes(transaction.status) || (transaction.type && transaction.type !== "PAYMENT")) {
+			continue;
+		}
+
+		const payment = bySession.get(toSessionId(transaction.foreign_transaction_id) ?? "") ||
+			byTransaction.get(transaction.id) ||
+			byTransaction.get(transaction.transaction_code);
+
+		// Unmatched transactions are reported one by one
+		const key = payment ? payment.session_id : `transaction:${transaction.id}`;
+		const group = groups.get(key) || { payment, transactions: [] };
+
+		group.transactions.push(transaction);
+		groups.set(key, group);
+	}
+
+	const entries = [...groups.values()].map(({ payment, transactions }) => toEntry(transactions, payment));
+
+	for (const payment of payments) {
+		if (payment.captured_amount > 0 && !groups.has(payment.session_id)) {
+			entries.push(toEntry([], payment));
+		}
+	}
+
+	const issues: Partial<Record<ReconciliationIssue, number>> = {};
+	entries.flatMap((entry) => entry.issues).forEach((issue) => {
+		issues[issue] = (issues[issue] || 0) + 1;
+	});
+
+	const mismatched = entries.filter((entry) => entry.issues.length > 0).length;
+
+	return {
+		from: period.from.toISOString(),
+		to: period.to.toISOString(),
+		generated_at: new Date().toISOString(),
+		summary: {
+			entries: entries.length,
+			matched: entries.length - mismatched,
+			mismatched,
+			issues,
+		},
+		entries,
+	};
+}
+
+/**
+ * Renders the report entries as CSV, one line per entry
+ */
+export function toReconciliationCsv(report: ReconciliationReport): string {
+	const lines = report.entries.map((entry) => CSV_COLUMNS.map((column) => {
+		const value = entry[column];
+		return toCsvValue(Array.isArray(value) ? value.join(" ") : value);
+	}).join(","));
+
+	return [CSV_COLUMNS.join(","), ...lines].join("\n");
+}
+
+/**
+ * Compares the SumUp transactions of a payment session with its Medusa payment
+ */
+function toEntry(transactions: SumUpTransaction[], payment?: ReconciliationPayment): ReconciliationEntry {
+	const currency = transactions[0]?.currency || payment?.currency_code.toUpperCase() || "";
+	const sumupAmount = toSumUpAmount(MathBN.sum(0, ...transactions.map((transaction) => transaction.amount)), currency);
+	const sumupRefunded = toSumUpAmount(MathBN.sum(0, ...transactions.map(getTransactionRefundedAmount)), currency);
+
+	const entry: ReconciliationEntry = {
+		session_id: payment?.session_id,
+		payment_id: payment?.payment_id,
+		order_id: payment?.order_id,
+		checkout_reference: transactions.find((transaction) => transaction.foreign_transaction_id)?.foreign_transaction_id,
+		transaction_codes: transactions.map((transaction) => transaction.transaction_code),
+		timestamp: transactions[0]?.timestamp,
+		currency,
+		sumup_amount: sumupAmount,
+		sumup_refunded_amount: sumupRefunded,
+		medusa_amount: payment?.amount ?? 0,
+		medusa_captured_amount: payment?.captured_amount ?? 0,
+		medusa_refunded_amount: payment?.refunded_amount ?? 0,
+		issues: [],
+	};
+
+	if (!payment) {
+		entry.issues.push(RECONCILIATION_ISSUES.ORPHANED_CHECKOUT);
+		return entry;
+	}
+
+	if (!transactions.length) {
+		entry.issues.push(RECONCILIATION_ISSUES.MISSING_IN_SUMUP);
+		return entry;
+	}
+
+	if (!payment.payment_id || payment.captured_amount <= 0) {
+		entry.issues.push(RECONCILIATION_ISSUES.NOT_CAPTURED);
+	}
+
+	if (payment.payment_id && payment.amount !== sumupAmount) {
+		entry.issues.push(RECONCILIATION_ISSUES.AMOUNT_MISMATCH);
+	}
+
+	if (sumupRefunded > payment.refunded_amount) {
+		entry.issues.push(RECONCILIATION_ISSUES.REFUND_MISSING_IN_MEDUSA);
+	} else if (sumupRefunded < payment.refunded_amount) {
+		entry.issues.push(RECONCILIATION_ISSUES.REFUND_MISSING_IN_SUMUP);
+	}
+
+	return entry;
+}
+
+/**
+ * Amount refunded of a transaction, as reported by the history or its refund events
+ */
+function getTransactionRefundedAmount(transaction: SumUpTransaction): number {
+	if (transaction.refunded_amount !== undefined) {
+		return transaction.refunded_amount;
+	}
+
+	const refunds = (transaction.events || [])
+		.filter((event) => event.type === "REFUND" && event.status !== "FAILED")
+		.map((event) => event.amount);
+
+	return toSumUpAmount(MathBN.sum(0, ...refunds), transaction.currency);
+}
+
+/**
+ * Quotes a CSV value if it contains a separator, quote or line break. Text starting
+ * with `=`, `+`, `-` or `@` is prefixed with `'`, so spreadsheets don't run it as a
+ * formula; numbers are written as they are.
+ */
+function toCsvValue(value: unknown): string {
+	const raw = value === undefined || value === null ? "" : String(value);
+	const text = typeof value === "string" && /^[=+\-@]/.test(raw) ? `'${raw}` : raw;
+	return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
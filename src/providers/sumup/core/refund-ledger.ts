@@ -0,0 +1,144 @@
+import { MathBN, MedusaError } from "@medusajs/framework/utils";
+import { SumUpRefundRecord, SumUpTransaction, SumUpTransactionEvent } from "../types";
+import { toSumUpAmount } from "./amount";
+
+/**
+ * Part of a refund issued against a single transaction
+ */
+export type RefundAllocation = {
+	transaction: SumUpTransaction;
+	amount: number;
+};
+
+/**
+ * Sums the refunds in the ledger that didn't fail
+ */
+export function getRefundedAmount(ledger: SumUpRefundRecord[], currency?: string, transactionId?: string): number {
+	const amounts = ledger
+		.filter((record) => record.status !== "FAILED")
+		.filter((record) => !transactionId || record.transaction_id === transactionId)
+		.map((record) => record.amount);
+
+	return toSumUpAmount(MathBN.sum(...amounts), currency);
+}
+
+/**
+ * Amount of a transaction that hasn't been refunded yet
+ */
+export function getRefundableAmount(
+	transaction: SumUpTransaction,
+	ledger: SumUpRefundRecord[]
+): number {
+	const refunded = getRefundedAmount(ledger, transaction.currency, transaction.id);
+	return toSumUpAmount(MathBN.max(MathBN.sub(transaction.amount, refunded), 0), transaction.currency);
+}
+
+/**
+ * Splits a refund across the successful transactions of a checkout, filling each
+ * transaction's refundable balance in turn
+ * @throws {MedusaError} If the amount exceeds the remaining refundable balance
+ */
+export function allocateRefund(
+	transactions: SumUpTransaction[],
+	ledger: SumUpRefundRecord[],
+	amount: number,
+	currency: string
+): RefundAllocation[] {
+	const refundable = transactions
+		.filter((transaction) => transaction.status === "SUCCESSFUL")
+		.map((transaction) => ({ transaction, amount: getRefundableAmount(transaction, ledger) }))
+		.filter((allocation) => allocation.amount > 0);
+
+	const available = toSumUpAmount(MathBN.sum(...refundable.map((allocation) => allocation.amount)), currency);
+
+	if (amount > available) {
+		throw new MedusaError(
+			MedusaError.Types.NOT_ALLOWED,
+			`Cannot refund ${amount} ${currency}, only ${available} ${currency} is refundable`
+		);
+	}
+
+	const allocations: RefundAllocation[] = [];
+	let remaining = amount;
+
+	for (const { transaction, amount: balance } of refundable) {
+		if (remaining <= 0) {
+			break;
+		}
+
+		const part = Math.min(remaining, balance);
+		allocations.push({ transaction, amount: part });
+		remaining = toSumUpAmount(MathBN.sub(remaining, part), currency);
+	}
+
+	return allocations;
+}
+
+/**
+ * Updates the ledger entries of a transaction from its SumUp refund events. Entries
+ * are matched by refund id, or by amount for entries that weren't matched yet.
+ * Refunds the ledger doesn't hold, such as those issued before a split refund
+ * failed, are added to it.
+ */
+export function applyRefundEvents(
+	ledger: SumUpRefundRecord[],
+	transaction: SumUpTransaction
+): SumUpRefundRecord[] {
+	const events = (transaction.events || []).filter((event) => event.type === "REFUND");
+	const claimed = new Set(ledger.map((record) => record.refund_id).filter(Boolean));
+
+	const synced = ledger.map((record) => {
+		if (record.transaction_id !== transaction.id) {
+			return record;
+		}
+
+		let event = events.find((candidate) => String(candidate.id) === record.refund_id);
+
+		if (!event && !record.refund_id) {
+			event = events.find((candidate) =>
+				!claimed.has(String(candidate.id)) && candidate.amount === record.amount
+			);
+		}
+
+		if (!event) {
+			return record;
+		}
+
+		claimed.add(String(event.id));
+
+		return {
+			...record,
+			refund_id: String(event.id),
+			status: toRefundStatus(event),
+		};
+	});
+
+	const missing = events
+		.filter((event) => !claimed.has(String(event.id)))
+		.map((event): SumUpRefundRecord => ({
+			transaction_id: transaction.id,
+			refund_id: String(event.id),
+			amount: event.amount,
+			currency: transaction.currency,
+			status: toRefundStatus(event),
+			created_at: event.timestamp,
+		}));
+
+	return [...synced, ...missing];
+}
+
+/**
+ * Maps the status of a SumUp refund event to the ledger status
+ */
+function toRefundStatus(event: SumUpTransactionEvent): SumUpRefundRecord["status"] {
+	switch (event.status) {
+		case "REFUNDED":
+		case "SUCCESSFUL":
+		case "PAID_OUT":
+			return "SUCCESSFUL";
+		case "FAILED":
+			return "FAILED";
+		default:
+			return "PENDING";
+	}
+}
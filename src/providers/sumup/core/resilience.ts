@@ -0,0 +1,148 @@
+import { SUMUP_ERROR_CODES } from "../types";
+import { SumUpError } from "./sumup-error";
+
+/**
+ * Timeout, retry and circuit breaker settings of the SumUp client
+ * @property requestTimeout - Milliseconds before a request to SumUp is aborted
+ * @property maxRetries - How often a safe request is retried after a network error, 429 or 5xx
+ * @property retryBaseDelay - Milliseconds the exponential backoff starts from
+ * @property retryMaxDelay - Longest wait between retries in milliseconds, longer `Retry-After` values aren't waited for
+ * @property circuitBreakerThreshold - Consecutive failures after which requests are rejected without calling SumUp
+ * @property circuitBreakerCooldown - Milliseconds the circuit stays open before a request is let through again
+ */
+export type ResilienceOptions = {
+	requestTimeout: number;
+	maxRetries: number;
+	retryBaseDelay: number;
+	retryMaxDelay: number;
+	circuitBreakerThreshold: number;
+	circuitBreakerCooldown: number;
+};
+
+export const DEFAULT_RESILIENCE_OPTIONS: ResilienceOptions = {
+	requestTimeout: 15000,
+	maxRetries: 2,
+	retryBaseDelay: 200,
+	retryMaxDelay: 5000,
+	circuitBreakerThreshold: 5,
+	circuitBreakerCooldown: 30000,
+};
+
+/**
+ * Stops calling SumUp after repeated failures. Once the cooldown has passed, a single
+ * request is let through as a probe while the others are still rejected: success
+ * closes the circuit, failure reopens it. A probe that never reports back is replaced
+ * after another cooldown.
+ */
+export class CircuitBreaker {
+	private failures_ = 0;
+	private openedAt_?: number;
+	private probeStartedAt_?: number;
+
+	constructor(
+		private readonly threshold: number,
+		private readonly cooldown: number
+	) {}
+
+	/**
+	 * @throws {SumUpError} If the circuit is open
+	 */
+	assertClosed(): void {
+		if (this.openedAt_ === undefined) {
+			return;
+		}
+
+		const now = Date.now();
+		const probing = this.probeStartedAt_ !== undefined && now - this.probeStartedAt_ < this.cooldown;
+
+		if (!probing && now - this.openedAt_ >= this.cooldown) {
+			this.probeStartedAt_ = now;
+			return;
+		}
+
+		throw new SumUpError(
+			SUMUP_ERROR_CODES.PROVIDER_UNAVAILABLE,
+			probing
+				? `Circuit open after ${this.failures_} consecutive failures, waiting for a probe request to succeed`
+				: `Circuit open after ${this.failures_} consecutive failures, retrying after ${new Date(this.openedAt_ + this.cooldown).toISOString()}`
+		);
+	}
+
+	recordSuccess(): void {
+		this.failures_ = 0;
+		this.openedAt_ = undefined;
+		this.probeStartedAt_ = undefined;
+	}
+
+	/**
+	 * @returns Whether this failure opened the circuit
+	 */
+	recordFailure(): boolean {
+		this.failures_++;
+		this.probeStartedAt_ = undefined;
+
+		const wasOpen = this.openedAt_ !== undefined;
+		if (this.threshold > 0 && this.failures_ >= this.threshold) {
+			this.openedAt_ = Date.now();
+		}
+
+		return !wasOpen && this.openedAt_ !== undefined;
+	}
+}
+
+/**
+ * Whether the error means SumUp is unreachable or failing, rather than rejecting the request
+ */
+export function isOutageError(error: SumUpError): boolean {
+	return error.status === undefined || error.status >= 500;
+}
+
+/**
+ * Whether retrying the request may succeed
+ */
+export function isRetryableError(error: SumUpError): boolean {
+	return isOutageError(error) || error.status === 429;
+}
+
+/**
+ * Milliseconds to wait before the next attempt: `Retry-After` when SumUp sent one,
+ * otherwise exponential backoff with full jitter
+ * @param attempt - The number of the failed attempt, starting at 0
+ * @returns The delay, or undefined if SumUp asked to wait longer than `retryMaxDelay`
+ */
+export function getRetryDelay(
+	attempt: number,
+	options: ResilienceOptions,
+	retryAfter?: number
+): number | undefined {
+	if (retryAfter !== undefined) {
+		return retryAfter <= options.retryMaxDelay ? retryAfter : undefined;
+	}
+
+	const backoff = Math.min(options.retryMaxDelay, options.retryBaseDelay * 2 ** attempt);
+	return Math.round(Math.random() * backoff);
+}
+
+/**
+ * Parses a `Retry-After` header, given in seconds or as HTTP date, into milliseconds
+ */
+export function parseRetryAfter(header?: string | null): number | undefined {
+	if (!header) {
+		return;
+	}
+
+	const seconds = Number(header);
+	if (!Number.isNaN(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const date = Date.parse(header);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Resolves after the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
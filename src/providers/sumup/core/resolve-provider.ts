@@ -0,0 +1,60 @@
+import type { IPaymentModuleService, MedusaContainer } from "@medusajs/framework/types";
+import { MedusaError, Modules } from "@medusajs/framework/utils";
+import type SumUpBase from "./sumup-base";
+
+/**
+ * Id the SumUp provider is registered with in the payment module's providers
+ */
+export const SUMUP_PROVIDER_ID = "sumup";
+
+/**
+ * Returns the Medusa payment provider id of a SumUp service, e.g. `pp_sumup-card_sumup`
+ */
+export function getPaymentProviderId(identifier: string): string {
+	return `pp_${identifier}_${SUMUP_PROVIDER_ID}`;
+}
+
+/**
+ * Returns the SumUp service identifier of a Medusa payment provider id
+ * @returns The identifier, or undefined if the provider isn't a SumUp provider
+ */
+export function getSumUpIdentifier(providerId: string): string | undefined {
+	const match = providerId.match(new RegExp(`^pp_(.+)_${SUMUP_PROVIDER_ID}$`));
+	return match?.[1];
+}
+
+/**
+ * Payment module service, whose container holds the payment providers under
+ * their registration keys
+ */
+type PaymentModuleWithContainer = IPaymentModuleService & {
+	__container__: Record<string, unknown>;
+};
+
+/**
+ * Resolves a SumUp provider instance from the payment module's container, so API
+ * routes and jobs can use the same configured client as the payment flow
+ * @throws {MedusaError} If the provider isn't configured
+ */
+export function resolveSumUpProvider<T extends SumUpBase = SumUpBase>(
+	container: MedusaContainer,
+	identifier: string
+): T {
+	const paymentModule = container.resolve(Modules.PAYMENT) as PaymentModuleWithContainer;
+
+	let provider: unknown;
+	try {
+		provider = paymentModule.__container__[getPaymentProviderId(identifier)];
+	} catch {
+		// The container throws for keys that were never registered
+	}
+
+	if (!provider) {
+		throw new MedusaError(
+			MedusaError.Types.NOT_FOUND,
+			`SumUp payment provider ${identifier} is not configured`
+		);
+	}
+
+	return provider as T;
+}
@@ -6,6 +6,7 @@ import {
 import {
 	AbstractPaymentProvider,
 	BigNumber,
+	MathBN,
 	MedusaError,
 	PaymentActions,
 	PaymentSessionStatus,
@@ -13,33 +14,91 @@ import {
 import {
 	AuthorizePaymentInput,
 	AuthorizePaymentOutput,
-	BigNumberRawValue,
+	BigNumberInput,
 	CancelPaymentInput,
 	CancelPaymentOutput,
 	CapturePaymentInput,
 	CapturePaymentOutput,
+	CreateAccountHolderInput,
+	CreateAccountHolderOutput,
+	DeleteAccountHolderInput,
+	DeleteAccountHolderOutput,
 	DeletePaymentInput,
+	DeletePaymentMethodInput,
+	DeletePaymentMethodOutput,
 	DeletePaymentOutput,
 	GetPaymentStatusInput,
 	GetPaymentStatusOutput,
 	InitiatePaymentInput,
 	InitiatePaymentOutput,
+	ListPaymentMethodsInput,
+	ListPaymentMethodsOutput,
+	PaymentAccountHolderDTO,
+	PaymentCustomerDTO,
 	RefundPaymentInput,
 	RefundPaymentOutput,
 	RetrievePaymentInput,
 	RetrievePaymentOutput,
+	SavePaymentMethodInput,
+	SavePaymentMethodOutput,
+	UpdateAccountHolderInput,
+	UpdateAccountHolderOutput,
 	UpdatePaymentInput,
 	UpdatePaymentOutput,
 } from "@medusajs/types";
 import { SumUpClient } from "./sumup-client";
+import {
+	assertSupportedCurrency,
+	fromSumUpAmount,
+	getSupportedCurrencies,
+	toSumUpAmount,
+} from "./amount";
+import {
+	getWebhookEventState,
+	isDeclinedAttempt,
+	isFinalUnpaidStatus,
+	isPaidStatus,
+	resolvePaymentStatus,
+	toWebhookAction,
+} from "./payment-status";
+import { getErrorMessage, SumUpError } from "./sumup-error";
+import { isOutageError } from "./resilience";
+import { getApiKeyEnvironment, getMerchantProfile, runOncePerAccount } from "./merchant-profile";
+import { getAvailablePaymentMethods } from "./available-methods";
+import { allocateRefund, applyRefundEvents, getRefundedAmount } from "./refund-ledger";
+import { toCheckoutReference, toCheckoutRevision, toSessionId } from "./checkout-reference";
 import {
 	ProviderOptions,
+	SumUpCheckoutCallbackPayload,
+	SumUpCheckoutData,
 	SumUpCheckoutResponse,
+	SumUpCustomerData,
+	SumUpErrorCode,
+	SumUpMerchantProfile,
+	SumUpPaymentDetails,
 	SumUpPaymentProcessData,
+	SumUpPayout,
+	SumUpRefundRecord,
+	SumUpSettlement,
+	SumUpTransaction,
 	SumUpWebhookPayload,
 	PaymentProviderKeys,
+	SUMUP_ERROR_CODES,
+	SUMUP_WEBHOOK_EVENT_TYPES,
+	SUMUP_WEBHOOK_SIGNATURE_HEADER,
 } from "../types";
 
+/**
+ * Default time a checkout can be paid for
+ */
+const DEFAULT_CHECKOUT_LIFETIME = 60 * 60 * 1000;
+
+/**
+ * Revisions of a session's checkout reference tried at most when the existing
+ * checkouts can't be reused
+ */
+const MAX_CHECKOUT_REVISIONS = 10;
+
 /**
  * Dependencies injected into the service
  */
@@ -57,11 +116,29 @@ abstract class SumUpBase extends AbstractPaymentProvider {
 	protected debug_: boolean;
 
 	/**
-	 * Validates that the required options are provided
+	 * Checkout creations in flight, keyed by checkout reference
+	 */
+	private readonly pendingCheckouts_ = new Map<string, Promise<SumUpCheckoutResponse>>();
+
+	/**
+	 * Returns the webhook URL for this payment provider
+	 */
+	abstract get webhookUrl(): string;
+
+	/**
+	 * Validates that the required options are provided, once per account and environment
 	 * @param options - The options to validate
-	 * @throws {MedusaError} If API key is missing
+	 * @throws {MedusaError} If a required option is missing, `autoCapture` is disabled,
+	 * or the environment doesn't match the API key
 	 */
 	static validateOptions(options: ProviderOptions): void {
+		runOncePerAccount(options, "options", () => SumUpBase.assertValidOptions(options));
+	}
+
+	/**
+	 * @throws {MedusaError} If the options are invalid, see `validateOptions`
+	 */
+	private static assertValidOptions(options: ProviderOptions): void {
 		if (!options.apiKey) {
 			throw new MedusaError(
 				MedusaError.Types.INVALID_DATA,
@@ -82,6 +159,28 @@ abstract class SumUpBase extends AbstractPaymentProvider {
 				"Medusa URL is required in the provider's options."
 			);
 		}
+
+		if (options.autoCapture === false) {
+			throw new MedusaError(
+				MedusaError.Types.INVALID_DATA,
+				"autoCapture: false is not supported, SumUp charges the shopper as soon as a checkout is paid."
+			);
+		}
+
+		if (options.environment && options.environment !== "test" && options.environment !== "live") {
+			throw new MedusaError(
+				MedusaError.Types.INVALID_DATA,
+				`Environment must be "test" or "live", got "${options.environment}".`
+			);
+		}
+
+		const keyEnvironment = getApiKeyEnvironment(options.apiKey);
+		if (keyEnvironment && keyEnvironment !== (options.environment || "test")) {
+			throw new MedusaError(
+				MedusaError.Types.INVALID_DATA,
+				`The API key is a ${keyEnvironment} key, but the provider is configured for the ${options.environment || "test"} environment.`
+			);
+		}
 	}
 
 	/**
@@ -101,15 +200,89 @@ abstract class SumUpBase extends AbstractPaymentProvider {
 			false;
 
 		this.client_ = new SumUpClient(options, this.logger_);
+
+		// Every payment method is its own provider with the same options, so they share the checks
+		runOncePerAccount(options, "startup", () => {
+			if (options.environment === "live") {
+				for (const [name, url] of [["medusaUrl", options.medusaUrl], ["redirectUrl", options.redirectUrl]]) {
+					if (!url.startsWith("https://")) {
+						this.logger_.warn(`SumUp ${name} ${url} should use HTTPS in the live environment`);
+					}
+				}
+			}
+
+			if (!options.webhookSecret) {
+				this.logger_.warn(
+					"SumUp webhookSecret is not set, so webhook signatures can't be verified. " +
+					"Webhooks are verified by re-fetching the checkout from SumUp instead."
+				);
+			}
+
+			this.validateCredentials().catch((error) => {
+				this.logger_.error(`SumUp API key could not be verified: ${error.message}`);
+			});
+		});
+
+		if (options.registerWebhook) {
+			this.ensureWebhookSubscription().catch((error) => {
+				this.logger_.warn(
+					`Could not register SumUp webhook ${this.webhookUrl}: ${error.message}`
+				);
+			});
+		}
+	}
+
+	/**
+	 * Returns the merchant profile, cached for `merchantProfileTtl`
+	 */
+	getMerchantProfile(): Promise<SumUpMerchantProfile> {
+		return getMerchantProfile(this.client_, this.options_, this.logger_);
+	}
+
+	/**
+	 * Checks that the API key is accepted and belongs to an account of the configured
+	 * environment. This also warms the merchant profile cache.
+	 */
+	protected async validateCredentials(): Promise<void> {
+		const merchant = await this.getMerchantProfile();
+		const environment = this.options_.environment || "test";
+
+		if (merchant.sandbox !== undefined && merchant.sandbox !== (environment === "test")) {
+			this.logger_.error(
+				`SumUp merchant ${merchant.merchant_code} is ${merchant.sandbox ? "a sandbox" : "a live"} account, ` +
+				`but the provider is configured for the ${environment} environment`
+			);
+		}
+	}
+
+	/**
+	 * Registers the provider's webhook URL with SumUp if it isn't subscribed yet
+	 */
+	protected async ensureWebhookSubscription(): Promise<void> {
+		const webhooks = await this.client_.listWebhooks();
+
+		if (webhooks.some((webhook) => webhook.url === this.webhookUrl)) {
+			this.logger_.debug(`SumUp webhook already registered: ${this.webhookUrl}`);
+			return;
+		}
+
+		await this.client_.createWebhook({
+			url: this.webhookUrl,
+			event_types: [...SUMUP_WEBHOOK_EVENT_TYPES],
+		});
+
+		this.logger_.info(`Registered SumUp webhook: ${this.webhookUrl}`);
 	}
 
 	/**
 	 * Normalizes payment creation parameters
 	 */
 	private normalizePaymentCreateParams(input: InitiatePaymentInput) {
+		const currencyCode = assertSupportedCurrency(input.currency_code);
+
 		const res = {
-			amount: this.getAmountAsNumber(input.amount),
-			currency_code: input.currency_code,
+			amount: toSumUpAmount(input.amount, currencyCode),
+			currency_code: currencyCode,
 			context: input.context,
 		};
 
@@ -117,10 +290,71 @@ abstract class SumUpBase extends AbstractPaymentProvider {
 	}
 
 	/**
-	 * Gets the amount as a number from BigNumber input
+	 * Lists the currencies the provider can charge, with the decimals SumUp accepts for each
 	 */
-	private getAmountAsNumber(amount: BigNumberRawValue): number {
-		return new BigNumber(amount).toNumber();
+	getSupportedCurrencies() {
+		return getSupportedCurrencies();
+	}
+
+	/**
+	 * Lists the merchant's SumUp payments made in a period, for reconciliation
+	 */
+	async listTransactions(from: Date, to: Date): Promise<SumUpTransaction[]> {
+		return this.client_.listAllTransactions({
+			oldest_time: from.toISOString(),
+			newest_time: to.toISOString(),
+			order: "ascending",
+			types: ["PAYMENT"],
+		});
+	}
+
+	/**
+	 * Lists the payout lines of the days in a period, with the fees SumUp charged per transaction
+	 */
+	async listPayouts(from: Date, to: Date): Promise<SumUpPayout[]> {
+		return this.client_.listPayouts(
+			await this.getMerchantCode(),
+			from.toISOString().slice(0, 10),
+			to.toISOString().slice(0, 10)
+		);
+	}
+
+	/**
+	 * Returns the ids of the SumUp payment methods available for an amount, such as
+	 * `card` or `paypal`, cached for `paymentMethodsTtl`
+	 * @throws {MedusaError} If the currency is not supported
+	 */
+	async getAvailablePaymentMethods(amount: BigNumberInput, currencyCode: string): Promise<string[]> {
+		const currency = assertSupportedCurrency(currencyCode);
+
+		return getAvailablePaymentMethods(
+			this.client_,
+			await this.getMerchantCode(),
+			toSumUpAmount(amount, currency),
+			currency,
+			this.options_.paymentMethodsTtl
+		);
+	}
+
+	/**
+	 * Returns the configured merchant code, or the one of the cached merchant profile
+	 */
+	private async getMerchantCode(): Promise<string> {
+		return this.options_.merchantCode || (await this.getMerchantProfile()).merchant_code;
+	}
+
+	/**
+	 * Returns how many milliseconds a checkout can be paid for
+	 */
+	getCheckoutLifetime(): number {
+		return this.options_.checkoutLifetime ?? DEFAULT_CHECKOUT_LIFETIME;
+	}
+
+	/**
+	 * Returns the `valid_until` of a checkout created now
+	 */
+	private getCheckoutValidUntil(): string {
+		return new Date(Date.now() + this.getCheckoutLifetime()).toISOString();
 	}
 
 	/**
@@ -130,18 +364,30 @@ abstract class SumUpBase extends AbstractPaymentProvider {
 		try {
 			const normalizedParams = this.normalizePaymentCreateParams(input);
 
-			// Generate a unique checkout reference
-			const checkoutReference = `medusa_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+			// Medusa passes the payment session id as the idempotency key, encode it in the
+			// checkout reference so webhooks can be mapped back to the session
+			const sessionId = input.context?.idempotency_key || (input.data?.session_id as string | undefined);
+			const checkoutReference = sessionId
+				? toCheckoutReference(sessionId)
+				: `medusa_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+			// Recurring payments save the card on the SumUp customer, so they need an account holder
+			const customerId = this.getSumUpCustomerId(input.context?.account_holder);
+			const setupRecurring = input.data?.setup_recurring === true;
+			const recurringToken = input.data?.recurring_token as string | undefined;
+
+			if ((setupRecurring || recurringToken) && !customerId) {
+				throw new MedusaError(
+					MedusaError.Types.INVALID_DATA,
+					"Recurring payments require a customer with a SumUp account holder"
+				);
+			}
 
 			// Get merchant info if merchant code is not provided
 			let merchantCode = this.options_.merchantCode;
 			if (!merchantCode) {
 				try {
-					const merchant = await this.client_.getMerchant();
-					merchantCode = merchant.merchant_code;
-					if (!merchantCode) {
-						throw new Error("Merchant code not found in API response");
-					}
+					merchantCode = (await this.getMerchantProfile()).merchant_code;
 				} catch (error) {
 					this.logger_.error("Failed to get merchant code", error);
 					throw new MedusaError(
@@ -151,28 +397,37 @@ abstract class SumUpBase extends AbstractPaymentProvider {
 				}
 			}
 
-			const createParams = {
+			const createParams: SumUpCheckoutData = {
 				amount: normalizedParams.amount,
 				currency: normalizedParams.currency_code,
 				checkout_reference: checkoutReference,
 				description: this.options_.description || "Payment via Medusa",
 				merchant_code: merchantCode,
 				redirect_url: this.options_.redirectUrl,
-				return_url: this.options_.redirectUrl,
+				return_url: this.webhookUrl,
+				customer_id: customerId,
+				purpose: setupRecurring ? "SETUP_RECURRING_PAYMENT" : undefined,
+				valid_until: this.getCheckoutValidUntil(),
 			};
 
-			this.logger_.debug("Creating SumUp checkout", { createParams });
+			this.logger_.debug(`Creating SumUp checkout ${createParams.checkout_reference}`);
 
-			const checkout = await this.client_.createCheckout(createParams);
+			const checkout = await this.createCheckoutOnce(createParams);
 
 			return {
+				id: checkout.id,
 				data: {
 					id: checkout.id,
+					session_id: sessionId,
+					customer_id: checkout.customer_id,
 					checkout_reference: checkout.checkout_reference,
 					amount: checkout.amount,
 					currency: checkout.currency,
 					status: checkout.status,
 					merchant_code: checkout.merchant_code,
+					purpose: checkout.purpose,
+					valid_until: checkout.valid_until ?? createParams.valid_until,
+					recurring_token: recurringToken,
 				},
 			};
 		} catch (error) {
@@ -181,63 +436,270 @@ abstract class SumUpBase extends AbstractPaymentProvider {
 		}
 	}
 
+	/**
+	 * Creates a checkout, sharing the result between concurrent calls for the same reference
+	 */
+	private createCheckoutOnce(params: SumUpCheckoutData): Promise<SumUpCheckoutResponse> {
+		const reference = params.checkout_reference;
+
+		const inFlight = this.pendingCheckouts_.get(reference);
+		if (inFlight) {
+			this.logger_.debug(`Awaiting in-flight SumUp checkout creation for ${reference}`);
+			return inFlight;
+		}
+
+		const creation = this.createOrReuseCheckout(params).finally(() => {
+			this.pendingCheckouts_.delete(reference);
+		});
+		this.pendingCheckouts_.set(reference, creation);
+
+		return creation;
+	}
+
+	/**
+	 * Creates a checkout, or reuses the existing one if SumUp reports the reference as a
+	 * duplicate. An existing checkout that can't be reused, such as one deactivated by a
+	 * failed update or created for another total, is skipped for the next revision.
+	 */
+	private async createOrReuseCheckout(params: SumUpCheckoutData): Promise<SumUpCheckoutResponse> {
+		for (let attempt = 0; ; attempt++) {
+			try {
+				return await this.client_.createCheckout(params);
+			} catch (error) {
+				if (!(error instanceof MedusaError) || error.type !== MedusaError.Types.DUPLICATE_ERROR) {
+					throw error;
+				}
+
+				const reference = params.checkout_reference;
+				const checkouts = await this.client_.listCheckouts(reference);
+				const existing = checkouts.find((checkout) => checkout.checkout_reference === reference);
+				if (!existing) {
+					throw error;
+				}
+
+				if (this.isReusableCheckout(existing, params)) {
+					this.logger_.info(`Reusing existing SumUp checkout ${existing.id} for reference ${reference}`);
+					return existing;
+				}
+
+				const sessionId = toSessionId(reference);
+				if (!sessionId || attempt >= MAX_CHECKOUT_REVISIONS) {
+					throw error;
+				}
+
+				const nextReference = toCheckoutReference(sessionId, toCheckoutRevision(reference) + 1);
+				this.logger_.info(
+					`SumUp checkout ${existing.id} (${existing.status}, ${existing.amount} ${existing.currency}) ` +
+					`can't be reused for reference ${reference}, creating ${nextReference}`
+				);
+				params = { ...params, checkout_reference: nextReference };
+			}
+		}
+	}
+
+	/**
+	 * Whether an existing checkout stands for the checkout being created: it charges the
+	 * same total and is still payable, or was paid already
+	 */
+	private isReusableCheckout(checkout: SumUpCheckoutResponse, params: SumUpCheckoutData): boolean {
+		return (checkout.status === "PENDING" || checkout.status === "PAID") &&
+			checkout.amount === params.amount &&
+			checkout.currency?.toUpperCase() === params.currency.toUpperCase();
+	}
+
 	/**
 	 * Authorizes a payment session
 	 */
 	async authorizePayment(input: AuthorizePaymentInput): Promise<AuthorizePaymentOutput> {
 		try {
-			const checkoutId = input.data?.id;
+			return await this.authorizeFromCheckout(input);
+		} catch (error) {
+			this.logger_.error("Failed to authorize SumUp payment", error);
+			throw error;
+		}
+	}
 
-			if (!checkoutId) {
-				throw new MedusaError(
-					MedusaError.Types.INVALID_DATA,
-					"Checkout ID is required for authorization"
-				);
-			}
+	/**
+	 * Resolves the session status from the current checkout. A pending checkout
+	 * with a stored `next_step` still waits on the shopper, so it requires more.
+	 * A declined attempt leaves the checkout open for another one, with the
+	 * `payment_declined` error stored in session data.
+	 */
+	protected async authorizeFromCheckout(input: AuthorizePaymentInput): Promise<AuthorizePaymentOutput> {
+		const checkoutId = input.data?.id as string | undefined;
 
-			// Get the current checkout status
-			const checkout = await this.client_.getCheckout(checkoutId);
+		if (!checkoutId) {
+			throw new MedusaError(
+				MedusaError.Types.INVALID_DATA,
+				"Checkout ID is required for authorization"
+			);
+		}
 
-			if (checkout.status === "PAID") {
-				return {
-					status: PaymentSessionStatus.AUTHORIZED,
-					data: {
-						...input.data,
-						status: checkout.status,
-						transactions: checkout.transactions,
-					},
-				};
-			}
+		// Get the current checkout status
+		const checkout = await this.client_.getCheckout(checkoutId);
+		const status = this.resolveCheckoutStatus(checkout, input.data);
 
-			if (checkout.status === "FAILED") {
-				return {
-					status: PaymentSessionStatus.ERROR,
-					data: {
-						...input.data,
-						status: checkout.status,
-					},
-				};
-			}
+		if (isPaidStatus(status)) {
+			// A paid setup checkout leaves the card saved on the customer for off-session renewals
+			const recurringToken = checkout.purpose === "SETUP_RECURRING_PAYMENT"
+				? checkout.payment_instrument?.token
+				: undefined;
 
 			return {
-				status: PaymentSessionStatus.PENDING,
+				status,
 				data: {
 					...input.data,
 					status: checkout.status,
+					transactions: checkout.transactions,
+					next_step: undefined,
+					...(recurringToken ? { recurring_token: recurringToken } : {}),
+				},
+			};
+		}
+
+		if (isFinalUnpaidStatus(status)) {
+			const code = status === PaymentSessionStatus.ERROR
+				? SUMUP_ERROR_CODES.PAYMENT_DECLINED
+				: checkout.status === "EXPIRED"
+					? SUMUP_ERROR_CODES.CHECKOUT_EXPIRED
+					: SUMUP_ERROR_CODES.PAYMENT_CANCELED;
+
+			return {
+				status,
+				data: {
+					...input.data,
+					status: checkout.status,
+					next_step: undefined,
+					error: { code, message: getErrorMessage(code) },
+				},
+			};
+		}
+
+		return {
+			status,
+			data: {
+				...input.data,
+				status: checkout.status,
+				...this.getDeclinedAttemptData(checkout),
+			},
+		};
+	}
+
+	/**
+	 * Session data recording a declined attempt on a checkout that is still open, which
+	 * clears the error of an earlier attempt once the latest one wasn't declined
+	 */
+	protected getDeclinedAttemptData(checkout: SumUpCheckoutResponse): Record<string, unknown> {
+		if (!isDeclinedAttempt(checkout)) {
+			return { error: undefined };
+		}
+
+		return {
+			error: {
+				code: SUMUP_ERROR_CODES.PAYMENT_DECLINED,
+				message: getErrorMessage(SUMUP_ERROR_CODES.PAYMENT_DECLINED),
+			},
+		};
+	}
+
+	/**
+	 * Resolves the Medusa session status of a checkout, which requires more while the
+	 * session data holds a `next_step` for the shopper
+	 */
+	protected resolveCheckoutStatus(
+		checkout: SumUpCheckoutResponse,
+		data?: Record<string, unknown>
+	): PaymentSessionStatus {
+		return resolvePaymentStatus(checkout, { awaitingShopper: !!data?.next_step });
+	}
+
+	/**
+	 * Processes the checkout with the given payment data. When SumUp answers with a
+	 * `next_step` (3DS challenge or redirect) the session requires more and the step
+	 * is stored in session data, otherwise the status is read back from the checkout.
+	 * @param sensitiveKeys - Session data keys holding payment details that must not be persisted
+	 */
+	protected async processCheckoutPayment(
+		input: AuthorizePaymentInput,
+		processData: SumUpPaymentProcessData,
+		sensitiveKeys: string[] = []
+	): Promise<AuthorizePaymentOutput> {
+		const checkoutId = input.data?.id as string | undefined;
+
+		if (!checkoutId) {
+			throw new MedusaError(
+				MedusaError.Types.INVALID_DATA,
+				"Checkout ID is required for authorization"
+			);
+		}
+
+		const sessionData = { ...input.data };
+		sensitiveKeys.forEach((key) => delete sessionData[key]);
+
+		this.logger_.debug(`Processing SumUp checkout ${checkoutId} as ${processData.payment_type}`);
+
+		const response = await this.client_.processCheckout(checkoutId, processData);
+
+		const data = {
+			...sessionData,
+			payment_type: processData.payment_type,
+			transaction_id: response.transaction_id,
+			transaction_code: response.transaction_code,
+		};
+
+		if (response.next_step) {
+			return {
+				status: PaymentSessionStatus.REQUIRES_MORE,
+				data: {
+					...data,
+					status: response.status,
+					next_step: response.next_step,
 				},
 			};
-		} catch (error) {
-			this.logger_.error("Failed to authorize SumUp payment", error);
-			throw error;
 		}
+
+		return this.authorizeFromCheckout({ ...input, data });
+	}
+
+	/**
+	 * Whether a request failed without SumUp answering it, such as after a timeout or
+	 * during an outage. Processing may still have charged the shopper, so the outcome
+	 * has to be read from the checkout.
+	 */
+	protected isUnknownOutcomeError(error: unknown): boolean {
+		return error instanceof SumUpError &&
+			(isOutageError(error) || error.code === SUMUP_ERROR_CODES.PROVIDER_UNAVAILABLE);
+	}
+
+	/**
+	 * Ends the session in ERROR with the reason stored in session data, so workflows
+	 * can act on the `error.code`
+	 */
+	protected rejectPayment(
+		input: AuthorizePaymentInput,
+		code: SumUpErrorCode,
+		message = getErrorMessage(code),
+		sensitiveKeys: string[] = []
+	): AuthorizePaymentOutput {
+		const data = { ...input.data };
+		sensitiveKeys.forEach((key) => delete data[key]);
+
+		return {
+			status: PaymentSessionStatus.ERROR,
+			data: {
+				...data,
+				error: { code, message },
+			},
+		};
 	}
 
 	/**
-	 * Captures a payment
+	 * Captures a payment. SumUp collects payments as soon as they are paid, so this
+	 * only checks that the checkout was paid.
 	 */
 	async capturePayment(input: CapturePaymentInput): Promise<CapturePaymentOutput> {
 		try {
-			const checkoutId = input.data?.id;
+			const checkoutId = input.data?.id as string | undefined;
 
 			if (!checkoutId) {
 				throw new MedusaError(
@@ -249,14 +711,13 @@ abstract class SumUpBase extends AbstractPaymentProvider {
 			// Get the current checkout status
 			const checkout = await this.client_.getCheckout(checkoutId);
 
-			if (checkout.status !== "PAID") {
+			if (!isPaidStatus(this.resolveCheckoutStatus(checkout))) {
 				throw new MedusaError(
-					MedusaError.Types.PAYMENT_CAPTURE_ERROR,
+					MedusaError.Types.NOT_ALLOWED,
 					`Cannot capture payment with status: ${checkout.status}`
 				);
 			}
 
-			// SumUp payments are automatically captured when paid
 			return {
 				data: {
 					...input.data,
@@ -271,38 +732,122 @@ abstract class SumUpBase extends AbstractPaymentProvider {
 	}
 
 	/**
-	 * Refunds a payment
+	 * Returns the payment's refund ledger with the refunds SumUp reports for the
+	 * checkout's transactions. Refunds of a split refund that failed partway aren't
+	 * in the stored ledger, and must count against the refundable balance.
+	 */
+	private async loadRefundLedger(
+		checkout: SumUpCheckoutResponse,
+		data?: Record<string, unknown>
+	): Promise<SumUpRefundRecord[]> {
+		let ledger = (data?.refunds || []) as SumUpRefundRecord[];
+
+		for (const transaction of checkout.transactions || []) {
+			if (transaction.status === "SUCCESSFUL") {
+				ledger = applyRefundEvents(ledger, await this.client_.getTransaction(transaction.id));
+			}
+		}
+
+		return ledger;
+	}
+
+	/**
+	 * Refunds an amount of a paid checkout, split across its successful transactions,
+	 * and records each SumUp refund in the ledger
+	 * @param ledger - The ledger returned by `loadRefundLedger`
+	 * @returns The ledger including the new refunds
+	 * @throws {MedusaError} If the amount exceeds the remaining refundable balance
+	 */
+	private async issueRefund(
+		checkout: SumUpCheckoutResponse,
+		amount: number,
+		ledger: SumUpRefundRecord[]
+	): Promise<SumUpRefundRecord[]> {
+		const allocations = allocateRefund(checkout.transactions || [], ledger, amount, checkout.currency);
+		const refunds = [...ledger];
+
+		for (const allocation of allocations) {
+			try {
+				await this.client_.refundTransaction(allocation.transaction.id, { amount: allocation.amount });
+			} catch (error) {
+				if (refunds.length > ledger.length) {
+					this.logger_.error(
+						`SumUp refund of checkout ${checkout.id} failed after refunding ${getRefundedAmount(refunds.slice(ledger.length), checkout.currency)} ${checkout.currency}, ` +
+						"which is read back from SumUp before the next refund"
+					);
+				}
+				throw error;
+			}
+
+			refunds.push({
+				transaction_id: allocation.transaction.id,
+				amount: allocation.amount,
+				currency: checkout.currency,
+				status: "PENDING",
+				created_at: new Date().toISOString(),
+			});
+		}
+
+		return this.syncRefundLedger(refunds);
+	}
+
+	/**
+	 * Updates the ids and statuses of unsettled ledger entries from SumUp's transaction history
+	 */
+	private async syncRefundLedger(ledger: SumUpRefundRecord[]): Promise<SumUpRefundRecord[]> {
+		const transactionIds = new Set(
+			ledger
+				.filter((record) => record.status === "PENDING" || !record.refund_id)
+				.map((record) => record.transaction_id)
+		);
+
+		let synced = ledger;
+
+		for (const transactionId of transactionIds) {
+			try {
+				synced = applyRefundEvents(synced, await this.client_.getTransaction(transactionId));
+			} catch (error) {
+				this.logger_.warn(`Failed to sync refunds of SumUp transaction ${transactionId}: ${error.message}`);
+			}
+		}
+
+		return synced;
+	}
+
+	/**
+	 * Refunds a payment. Multiple partial refunds are recorded in the `refunds` ledger,
+	 * and refunds are rejected once the paid amount has been refunded.
 	 */
 	async refundPayment(input: RefundPaymentInput): Promise<RefundPaymentOutput> {
 		try {
-			const transactions = input.data?.transactions || [];
-			const refundAmount = this.getAmountAsNumber(input.amount);
+			const checkoutId = input.data?.id as string | undefined;
 
-			if (!transactions.length) {
+			if (!checkoutId) {
 				throw new MedusaError(
 					MedusaError.Types.INVALID_DATA,
-					"No transactions found for refund"
+					"Checkout ID is required for refund"
 				);
 			}
 
-			// Use the first successful transaction for refund
-			const transaction = transactions.find((t: any) => t.status === "SUCCESSFUL");
+			const checkout = await this.client_.getCheckout(checkoutId);
+			const refundAmount = toSumUpAmount(input.amount, checkout.currency);
 
-			if (!transaction) {
+			if (refundAmount <= 0) {
 				throw new MedusaError(
 					MedusaError.Types.INVALID_DATA,
-					"No successful transaction found for refund"
+					"Refund amount must be greater than 0"
 				);
 			}
 
-			const refundData = refundAmount ? { amount: refundAmount } : undefined;
-
-			await this.client_.refundTransaction(transaction.id, refundData);
+			const ledger = await this.loadRefundLedger(checkout, input.data);
+			const refunds = await this.issueRefund(checkout, refundAmount, ledger);
 
 			return {
 				data: {
 					...input.data,
-					refunded_amount: refundAmount,
+					transactions: checkout.transactions,
+					refunds,
+					refunded_amount: getRefundedAmount(refunds, checkout.currency),
 				},
 			};
 		} catch (error) {
@@ -312,30 +857,75 @@ abstract class SumUpBase extends AbstractPaymentProvider {
 	}
 
 	/**
-	 * Cancels a payment
+	 * Cancels a payment. Pending checkouts are deactivated, paid checkouts are
+	 * handled according to `cancelPolicy`.
+	 * The outcome is recorded in the session data's `cancellation`.
 	 */
 	async cancelPayment(input: CancelPaymentInput): Promise<CancelPaymentOutput> {
 		try {
-			const checkoutId = input.data?.id;
+			const checkoutId = input.data?.id as string | undefined;
 
-			if (checkoutId) {
-				try {
-					// Try to deactivate the checkout using the SDK
-					await this.client_.deactivateCheckout(checkoutId);
-					this.logger_.debug("Successfully deactivated SumUp checkout", { checkoutId });
-				} catch (error) {
-					// If deactivation fails (e.g., already processed), just log and continue
-					this.logger_.warn("Could not deactivate checkout, it may have already been processed", {
-						checkoutId,
-						error: error.message
-					});
-				}
+			if (!checkoutId) {
+				return {
+					data: {
+						...input.data,
+						status: "CANCELLED",
+						cancellation: this.toCancellation("none"),
+					},
+				};
 			}
 
-			return {
-				data: {
+			const checkout = await this.client_.getCheckout(checkoutId);
+
+			if (!isPaidStatus(this.resolveCheckoutStatus(checkout))) {
+				// SumUp accepts payments until the checkout is deactivated, even after a failed attempt
+				if (checkout.status === "PENDING") {
+					await this.client_.deactivateCheckout(checkoutId);
+					this.logger_.debug(`Deactivated SumUp checkout ${checkoutId}`);
+
+					return {
+						data: {
+							...input.data,
+							status: "CANCELLED",
+							cancellation: this.toCancellation("deactivated", checkout),
+						},
+					};
+				}
+
+				return {
+					data: {
+						...input.data,
+						status: "CANCELLED",
+						cancellation: this.toCancellation("none", checkout),
+					},
+				};
+			}
+
+			if (this.options_.cancelPolicy === "fail") {
+				throw new MedusaError(
+					MedusaError.Types.NOT_ALLOWED,
+					`SumUp checkout ${checkoutId} was already paid and can't be cancelled, refund the payment instead`
+				);
+			}
+
+			const ledger = await this.loadRefundLedger(checkout, input.data);
+			const refundAmount = toSumUpAmount(
+				MathBN.sub(checkout.amount, getRefundedAmount(ledger, checkout.currency)),
+				checkout.currency
+			);
+			const refunds = refundAmount > 0
+				? await this.issueRefund(checkout, refundAmount, ledger)
+				: ledger;
+
+			this.logger_.info(`Refunded ${refundAmount} ${checkout.currency} of paid SumUp checkout ${checkoutId} on cancellation`);
+
+			return {
+				data: {
 					...input.data,
 					status: "CANCELLED",
+					transactions: checkout.transactions,
+					refunds,
+					cancellation: this.toCancellation("refunded", checkout, refundAmount),
 				},
 			};
 		} catch (error) {
@@ -345,12 +935,37 @@ abstract class SumUpBase extends AbstractPaymentProvider {
 	}
 
 	/**
-	 * Deletes a payment session
+	 * Describes what cancelling a payment did in SumUp
+	 */
+	private toCancellation(
+		action: "none" | "deactivated" | "refunded",
+		checkout?: SumUpCheckoutResponse,
+		refundedAmount?: number
+	) {
+		return {
+			action,
+			checkout_status: checkout?.status,
+			refunded_amount: refundedAmount,
+			cancelled_at: new Date().toISOString(),
+		};
+	}
+
+	/**
+	 * Deletes a payment session. A checkout that is still open is deactivated, so
+	 * it can't be paid after the session is gone.
 	 */
 	async deletePayment(input: DeletePaymentInput): Promise<DeletePaymentOutput> {
 		try {
-			// SumUp doesn't require explicit deletion of payment sessions
-			// They will expire automatically
+			const checkoutId = input.data?.id as string | undefined;
+
+			if (checkoutId) {
+				const checkout = await this.client_.getCheckout(checkoutId);
+
+				if (checkout.status === "PENDING" && !isPaidStatus(this.resolveCheckoutStatus(checkout))) {
+					await this.client_.deactivateCheckout(checkoutId);
+				}
+			}
+
 			return {
 				data: input.data,
 			};
@@ -362,12 +977,55 @@ abstract class SumUpBase extends AbstractPaymentProvider {
 		}
 	}
 
+	/**
+	 * Re-checks a session that stayed pending past the checkout lifetime, for payments
+	 * whose webhook never arrived. A paid checkout is reported with its paid status,
+	 * one that is still open is deactivated and reported as canceled.
+	 */
+	async reconcileStalePayment(data: Record<string, unknown>): Promise<GetPaymentStatusOutput> {
+		const checkoutId = data.id as string | undefined;
+
+		if (!checkoutId) {
+			return { status: PaymentSessionStatus.ERROR, data };
+		}
+
+		const checkout = await this.client_.getCheckout(checkoutId);
+		const status = this.resolveCheckoutStatus(checkout, data);
+
+		if (checkout.status === "PENDING" && !isPaidStatus(status)) {
+			const deactivated = await this.client_.deactivateCheckout(checkoutId);
+			this.logger_.info(`Deactivated abandoned SumUp checkout ${checkoutId}`);
+
+			return {
+				status: PaymentSessionStatus.CANCELED,
+				data: {
+					...data,
+					status: deactivated.status,
+					next_step: undefined,
+					error: {
+						code: SUMUP_ERROR_CODES.CHECKOUT_EXPIRED,
+						message: getErrorMessage(SUMUP_ERROR_CODES.CHECKOUT_EXPIRED),
+					},
+				},
+			};
+		}
+
+		return {
+			status,
+			data: {
+				...data,
+				status: checkout.status,
+				transactions: checkout.transactions,
+			},
+		};
+	}
+
 	/**
 	 * Gets the payment status
 	 */
 	async getPaymentStatus(input: GetPaymentStatusInput): Promise<GetPaymentStatusOutput> {
 		try {
-			const checkoutId = input.data?.id;
+			const checkoutId = input.data?.id as string | undefined;
 
 			if (!checkoutId) {
 				return { status: PaymentSessionStatus.ERROR };
@@ -375,20 +1033,13 @@ abstract class SumUpBase extends AbstractPaymentProvider {
 
 			const checkout = await this.client_.getCheckout(checkoutId);
 
-			const statusMap = {
-				PENDING: PaymentSessionStatus.PENDING,
-				FAILED: PaymentSessionStatus.ERROR,
-				PAID: PaymentSessionStatus.AUTHORIZED,
-			};
-
-			const mappedStatus = statusMap[checkout.status] || PaymentSessionStatus.PENDING;
-
 			return {
-				status: mappedStatus,
+				status: this.resolveCheckoutStatus(checkout, input.data),
 				data: {
 					...input.data,
 					status: checkout.status,
 					transactions: checkout.transactions,
+					...this.getDeclinedAttemptData(checkout),
 				},
 			};
 		} catch (error) {
@@ -397,18 +1048,84 @@ abstract class SumUpBase extends AbstractPaymentProvider {
 		}
 	}
 
+	/**
+	 * Loads the live checkout of a payment and the details of its transactions. A
+	 * transaction whose details can't be fetched is returned as the checkout lists it.
+	 * @throws {MedusaError} If the payment has no SumUp checkout
+	 */
+	async getPaymentDetails(data: Record<string, unknown>): Promise<SumUpPaymentDetails> {
+		const checkoutId = data.id as string | undefined;
+
+		if (!checkoutId) {
+			throw new MedusaError(MedusaError.Types.NOT_FOUND, "The payment has no SumUp checkout");
+		}
+
+		const checkout = await this.client_.getCheckout(checkoutId);
+		const transactions = await Promise.all((checkout.transactions || []).map(async (transaction) => {
+			try {
+				return await this.client_.getTransaction(transaction.id);
+			} catch (error) {
+				this.logger_.warn(`Failed to get SumUp transaction ${transaction.id}: ${error.message}`);
+				return transaction;
+			}
+		}));
+
+		return {
+			status: this.resolveCheckoutStatus(checkout, data),
+			checkout,
+			transactions,
+			refunds: (data.refunds || []) as SumUpRefundRecord[],
+			settlement: data.settlement as SumUpSettlement | undefined,
+		};
+	}
+
+	/**
+	 * Deactivates the checkout of a payment that wasn't paid, so it can't be paid anymore
+	 * @throws {MedusaError} If the checkout isn't pending or was already paid
+	 */
+	async deactivatePaymentCheckout(data: Record<string, unknown>): Promise<GetPaymentStatusOutput> {
+		const checkoutId = data.id as string | undefined;
+
+		if (!checkoutId) {
+			throw new MedusaError(MedusaError.Types.NOT_FOUND, "The payment has no SumUp checkout");
+		}
+
+		const checkout = await this.client_.getCheckout(checkoutId);
+
+		if (checkout.status !== "PENDING" || isPaidStatus(this.resolveCheckoutStatus(checkout, data))) {
+			throw new MedusaError(
+				MedusaError.Types.NOT_ALLOWED,
+				`SumUp checkout ${checkoutId} is ${checkout.status.toLowerCase()} and can't be deactivated`
+			);
+		}
+
+		const deactivated = await this.client_.deactivateCheckout(checkoutId);
+		this.logger_.info(`Deactivated SumUp checkout ${checkoutId}`);
+
+		return {
+			status: PaymentSessionStatus.CANCELED,
+			data: {
+				...data,
+				status: deactivated.status,
+				next_step: undefined,
+				cancellation: this.toCancellation("deactivated", deactivated),
+			},
+		};
+	}
+
 	/**
 	 * Retrieves payment data
 	 */
 	async retrievePayment(input: RetrievePaymentInput): Promise<RetrievePaymentOutput> {
 		try {
-			const checkoutId = input.data?.id;
+			const checkoutId = input.data?.id as string | undefined;
 
 			if (!checkoutId) {
 				return { data: input.data };
 			}
 
 			const checkout = await this.client_.getCheckout(checkoutId);
+			const ledger = (input.data?.refunds || []) as SumUpRefundRecord[];
 
 			return {
 				data: {
@@ -417,6 +1134,7 @@ abstract class SumUpBase extends AbstractPaymentProvider {
 					amount: checkout.amount,
 					currency: checkout.currency,
 					transactions: checkout.transactions,
+					...(ledger.length ? { refunds: await this.syncRefundLedger(ledger) } : {}),
 				},
 			};
 		} catch (error) {
@@ -430,7 +1148,7 @@ abstract class SumUpBase extends AbstractPaymentProvider {
 	 */
 	async updatePayment(input: UpdatePaymentInput): Promise<UpdatePaymentOutput> {
 		try {
-			const checkoutId = input.data?.id;
+			const checkoutId = input.data?.id as string | undefined;
 
 			if (!checkoutId) {
 				throw new MedusaError(
@@ -439,13 +1157,68 @@ abstract class SumUpBase extends AbstractPaymentProvider {
 				);
 			}
 
-			// SumUp doesn't support updating checkouts after creation
-			// Return the current data
+			const currency = assertSupportedCurrency(input.currency_code);
+			const amount = toSumUpAmount(input.amount, currency);
+
+			if (amount === input.data?.amount && currency === (input.data?.currency as string | undefined)?.toUpperCase()) {
+				return { data: input.data };
+			}
+
+			// SumUp checkouts can't be updated, so the checkout is replaced by one with the new total
+			const checkout = await this.client_.getCheckout(checkoutId);
+
+			if (isPaidStatus(this.resolveCheckoutStatus(checkout))) {
+				throw new MedusaError(
+					MedusaError.Types.NOT_ALLOWED,
+					`SumUp checkout ${checkoutId} was already paid and can't be updated`
+				);
+			}
+
+			const sessionId = input.data?.session_id as string | undefined;
+			const checkoutReference = sessionId
+				? toCheckoutReference(sessionId, toCheckoutRevision(checkout.checkout_reference) + 1)
+				: `medusa_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+			const updated = await this.createCheckoutOnce({
+				amount,
+				currency,
+				checkout_reference: checkoutReference,
+				description: checkout.description || this.options_.description || "Payment via Medusa",
+				merchant_code: checkout.merchant_code,
+				redirect_url: this.options_.redirectUrl,
+				return_url: this.webhookUrl,
+				customer_id: checkout.customer_id,
+				purpose: checkout.purpose === "SETUP_RECURRING_PAYMENT" ? checkout.purpose : undefined,
+				valid_until: this.getCheckoutValidUntil(),
+			});
+
+			// Only deactivate the old checkout once the session has a replacement
+			if (checkout.status === "PENDING") {
+				try {
+					await this.client_.deactivateCheckout(checkoutId);
+				} catch (error) {
+					// The old checkout may have been paid meanwhile, so the replacement must not be paid too
+					await this.client_.deactivateCheckout(updated.id).catch((deactivateError) => {
+						this.logger_.error(
+							`Failed to deactivate replacement SumUp checkout ${updated.id}: ${deactivateError.message}`
+						);
+					});
+					throw error;
+				}
+			}
+
+			this.logger_.info(`Replaced SumUp checkout ${checkoutId} with ${updated.id} for the updated amount`);
+
 			return {
 				data: {
 					...input.data,
-					amount: this.getAmountAsNumber(input.amount),
-					currency_code: input.currency_code,
+					id: updated.id,
+					checkout_reference: updated.checkout_reference,
+					amount: updated.amount,
+					currency: updated.currency,
+					status: updated.status,
+					valid_until: updated.valid_until,
+					next_step: undefined,
 				},
 			};
 		} catch (error) {
@@ -454,6 +1227,208 @@ abstract class SumUpBase extends AbstractPaymentProvider {
 		}
 	}
 
+	/**
+	 * Creates a SumUp customer for a Medusa account holder, using the Medusa customer id as SumUp customer id
+	 */
+	async createAccountHolder(input: CreateAccountHolderInput): Promise<CreateAccountHolderOutput> {
+		const { customer, account_holder } = input.context;
+
+		const existingId = this.getSumUpCustomerId(account_holder);
+		if (existingId) {
+			return { id: existingId, data: account_holder?.data };
+		}
+
+		try {
+			const sumUpCustomer = await this.client_.createCustomer({
+				customer_id: customer.id,
+				personal_details: this.toPersonalDetails(customer),
+			});
+
+			return { id: sumUpCustomer.customer_id, data: sumUpCustomer };
+		} catch (error) {
+			if (error instanceof MedusaError && error.type === MedusaError.Types.DUPLICATE_ERROR) {
+				const sumUpCustomer = await this.client_.getCustomer(customer.id);
+				return { id: sumUpCustomer.customer_id, data: sumUpCustomer };
+			}
+
+			this.logger_.error("Failed to create SumUp customer", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Updates the personal details of the SumUp customer of an account holder
+	 */
+	async updateAccountHolder(input: UpdateAccountHolderInput): Promise<UpdateAccountHolderOutput> {
+		const { customer, account_holder } = input.context;
+		const customerId = this.getSumUpCustomerId(account_holder);
+
+		if (!customerId || !customer) {
+			return {};
+		}
+
+		try {
+			const sumUpCustomer = await this.client_.updateCustomer(
+				customerId,
+				this.toPersonalDetails(customer)
+			);
+
+			return { data: sumUpCustomer };
+		} catch (error) {
+			this.logger_.error("Failed to update SumUp customer", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Deletes an account holder. SumUp customers can't be deleted, so their
+	 * saved payment instruments are deactivated instead.
+	 */
+	async deleteAccountHolder(input: DeleteAccountHolderInput): Promise<DeleteAccountHolderOutput> {
+		const customerId = this.getSumUpCustomerId(input.context.account_holder);
+
+		if (!customerId) {
+			return {};
+		}
+
+		try {
+			const instruments = await this.client_.listCustomerPaymentInstruments(customerId);
+
+			for (const instrument of instruments.filter((i) => i.active)) {
+				await this.client_.deactivateCustomerPaymentInstrument(customerId, instrument.token);
+			}
+
+			return {};
+		} catch (error) {
+			this.logger_.error("Failed to delete SumUp customer", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Lists the active payment instruments saved for an account holder
+	 */
+	async listPaymentMethods(input: ListPaymentMethodsInput): Promise<ListPaymentMethodsOutput> {
+		const customerId = this.getSumUpCustomerId(input.context?.account_holder);
+
+		if (!customerId) {
+			return [];
+		}
+
+		try {
+			const instruments = await this.client_.listCustomerPaymentInstruments(customerId);
+
+			return instruments
+				.filter((instrument) => instrument.active)
+				.map((instrument) => ({
+					id: instrument.token,
+					data: { ...instrument, customer_id: customerId },
+				}));
+		} catch (error) {
+			this.logger_.error("Failed to list SumUp payment instruments", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Saves a payment method for an account holder. SumUp stores payment instruments
+	 * when a checkout with the customer is processed, so this looks up the instrument
+	 * by `token`, or by the `checkout_id` of the checkout that created it.
+	 */
+	async savePaymentMethod(input: SavePaymentMethodInput): Promise<SavePaymentMethodOutput> {
+		const customerId = this.getSumUpCustomerId(input.context?.account_holder);
+
+		if (!customerId) {
+			throw new MedusaError(
+				MedusaError.Types.INVALID_DATA,
+				"An account holder is required to save a SumUp payment method"
+			);
+		}
+
+		try {
+			let token = input.data?.token as string | undefined;
+
+			if (!token && input.data?.checkout_id) {
+				const checkout = await this.client_.getCheckout(input.data.checkout_id as string);
+				token = checkout.payment_instrument?.token;
+			}
+
+			const instruments = await this.client_.listCustomerPaymentInstruments(customerId);
+			const instrument = instruments.find((i) => i.active && i.token === token);
+
+			if (!instrument) {
+				throw new MedusaError(
+					MedusaError.Types.NOT_FOUND,
+					"No active SumUp payment instrument found for the customer"
+				);
+			}
+
+			return {
+				id: instrument.token,
+				data: { ...instrument, customer_id: customerId },
+			};
+		} catch (error) {
+			this.logger_.error("Failed to save SumUp payment instrument", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Deactivates a saved payment instrument
+	 */
+	async deletePaymentMethod(input: DeletePaymentMethodInput): Promise<DeletePaymentMethodOutput> {
+		const customerId =
+			(input.data.customer_id as string | undefined) ||
+			this.getSumUpCustomerId(input.context?.account_holder);
+
+		if (!customerId) {
+			throw new MedusaError(
+				MedusaError.Types.INVALID_DATA,
+				"A SumUp customer is required to delete a payment method"
+			);
+		}
+
+		try {
+			await this.client_.deactivateCustomerPaymentInstrument(customerId, input.data.id);
+
+			return {};
+		} catch (error) {
+			this.logger_.error("Failed to deactivate SumUp payment instrument", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Gets the SumUp customer id of a Medusa account holder
+	 */
+	protected getSumUpCustomerId(
+		accountHolder?: Partial<Pick<PaymentAccountHolderDTO, "data">> & { external_id?: string }
+	): string | undefined {
+		return (accountHolder?.data?.customer_id as string | undefined) || accountHolder?.external_id;
+	}
+
+	/**
+	 * Maps a Medusa customer to SumUp personal details
+	 */
+	private toPersonalDetails(customer: PaymentCustomerDTO): SumUpCustomerData["personal_details"] {
+		const billing = customer.billing_address;
+
+		return {
+			email: customer.email,
+			first_name: customer.first_name || undefined,
+			last_name: customer.last_name || undefined,
+			phone: customer.phone || undefined,
+			address: billing
+				? {
+					line_1: billing.address_1 || undefined,
+					city: billing.city || undefined,
+					postal_code: billing.postal_code || undefined,
+					country: billing.country_code?.toUpperCase(),
+				}
+				: undefined,
+		};
+	}
+
 	/**
 	 * Processes webhook events from SumUp
 	 */
@@ -461,53 +1436,52 @@ abstract class SumUpBase extends AbstractPaymentProvider {
 		payload: ProviderWebhookPayload["payload"]
 	): Promise<WebhookActionResult> {
 		try {
+			if (this.isCheckoutCallback(payload.data)) {
+				const checkout = await this.client_.getCheckout(payload.data.id);
+				return await this.getCheckoutWebhookActionAndData(checkout, payload.data);
+			}
+
 			const data = payload.data as SumUpWebhookPayload;
 
-			switch (data.event_type) {
-				case "transaction_successful":
-				case "payment_captured":
-				case "checkout_paid":
-					return {
-						action: PaymentActions.SUCCESSFUL,
-						data: {
-							session_id: data.resource.checkout_reference || data.resource.id || "",
-							amount: new BigNumber(data.resource.amount || 0),
-						},
-					};
+			const rejectionReason = this.getWebhookRejectionReason(payload);
+			if (rejectionReason) {
+				return this.rejectWebhook(rejectionReason, data);
+			}
 
-				case "transaction_failed":
-				case "payment_failed":
-				case "checkout_failed":
-					return {
-						action: PaymentActions.FAILED,
-						data: {
-							session_id: data.resource.checkout_reference || data.resource.id || "",
-							amount: new BigNumber(data.resource.amount || 0),
-						},
-					};
+			if (this.options_.verifyWebhookWithApi || !this.options_.webhookSecret) {
+				return await this.getVerifiedWebhookActionAndData(data);
+			}
 
-				case "transaction_cancelled":
-				case "payment_cancelled":
-				case "checkout_cancelled":
-				case "checkout_expired":
-					return {
-						action: PaymentActions.CANCELED,
-						data: {
-							session_id: data.resource.checkout_reference || data.resource.id || "",
-							amount: new BigNumber(data.resource.amount || 0),
-						},
-					};
+			const checkoutReference = await this.resolveWebhookCheckoutReference(data);
+			const sessionId = toSessionId(checkoutReference);
+			if (!sessionId) {
+				return this.rejectWebhook("checkout could not be matched to a payment session", data);
+			}
 
-				default:
-					this.logger_.warn("Unsupported webhook event type", { event_type: data.event_type });
-					return {
-						action: PaymentActions.NOT_SUPPORTED,
-						data: {
-							session_id: data.resource.checkout_reference || data.resource.id || "",
-							amount: new BigNumber(data.resource.amount || 0),
-						},
-					};
+			const webhookData = {
+				session_id: sessionId,
+				amount: fromSumUpAmount(data.resource.amount, data.resource.currency),
+			};
+
+			const eventState = getWebhookEventState(data.event_type);
+			if (!eventState) {
+				this.logger_.warn(`Unsupported webhook event type: ${data.event_type}`);
+				return {
+					action: PaymentActions.NOT_SUPPORTED,
+					data: webhookData,
+				};
+			}
+
+			const status = resolvePaymentStatus(eventState);
+
+			if (!isPaidStatus(status) && await this.isSupersededCheckout(checkoutReference!)) {
+				return this.rejectWebhook("checkout was replaced after the amount changed", data);
 			}
+
+			return {
+				action: toWebhookAction(status),
+				data: webhookData,
+			};
 		} catch (error) {
 			this.logger_.error("Failed to process SumUp webhook", error);
 			return {
@@ -519,6 +1493,178 @@ abstract class SumUpBase extends AbstractPaymentProvider {
 			};
 		}
 	}
+
+	/**
+	 * Checks the authenticity of a webhook, returning why it was rejected if it isn't authentic
+	 */
+	private getWebhookRejectionReason(
+		payload: ProviderWebhookPayload["payload"]
+	): string | undefined {
+		const data = payload.data as SumUpWebhookPayload | undefined;
+
+		if (!data?.resource?.id) {
+			return "payload has no resource";
+		}
+
+		if (!this.options_.webhookSecret) {
+			return;
+		}
+
+		const signature = payload.headers?.[SUMUP_WEBHOOK_SIGNATURE_HEADER];
+		if (typeof signature !== "string") {
+			return "signature header is missing";
+		}
+
+		if (!payload.rawData || !this.client_.validateWebhookSignature(payload.rawData, signature)) {
+			return "signature is invalid";
+		}
+	}
+
+	/**
+	 * Logs a rejected webhook and returns a result Medusa will not act on
+	 */
+	private rejectWebhook(
+		reason: string,
+		data?: SumUpWebhookPayload | SumUpCheckoutCallbackPayload
+	): WebhookActionResult {
+		this.logger_.warn(
+			`Rejected SumUp webhook ${data?.id ?? "without id"} (${data?.event_type ?? "unknown event"}): ${reason}`
+		);
+
+		return {
+			action: PaymentActions.NOT_SUPPORTED,
+			data: {
+				session_id: "",
+				amount: new BigNumber(0),
+			},
+		};
+	}
+
+	/**
+	 * Resolves the webhook action from the checkout as reported by SumUp,
+	 * ignoring the status and amount sent in the payload
+	 */
+	private async getVerifiedWebhookActionAndData(
+		data: SumUpWebhookPayload
+	): Promise<WebhookActionResult> {
+		const checkout = this.isCheckoutWebhook(data)
+			? await this.client_.getCheckout(data.resource.id)
+			: await this.resolveTransactionCheckout(data.resource.id);
+
+		return this.getCheckoutWebhookActionAndData(checkout, data);
+	}
+
+	/**
+	 * Resolves the webhook action from a checkout fetched from SumUp
+	 */
+	private async getCheckoutWebhookActionAndData(
+		checkout: SumUpCheckoutResponse,
+		data: SumUpWebhookPayload | SumUpCheckoutCallbackPayload
+	): Promise<WebhookActionResult> {
+		const sessionId = toSessionId(checkout.checkout_reference);
+		if (!sessionId) {
+			return this.rejectWebhook("checkout could not be matched to a payment session", data);
+		}
+
+		const status = resolvePaymentStatus(checkout);
+
+		if (!isPaidStatus(status) && await this.isSupersededCheckout(checkout.checkout_reference)) {
+			return this.rejectWebhook("checkout was replaced after the amount changed", data);
+		}
+
+		return {
+			action: toWebhookAction(status),
+			data: {
+				session_id: sessionId,
+				amount: fromSumUpAmount(checkout.amount, checkout.currency),
+			},
+		};
+	}
+
+	/**
+	 * Whether `updatePayment` replaced the checkout with a newer revision, in which
+	 * case its failure or expiry must not affect the payment session
+	 */
+	private async isSupersededCheckout(checkoutReference: string): Promise<boolean> {
+		const sessionId = toSessionId(checkoutReference);
+		if (!sessionId) {
+			return false;
+		}
+
+		const nextReference = toCheckoutReference(sessionId, toCheckoutRevision(checkoutReference) + 1);
+		const checkouts = await this.client_.listCheckouts(nextReference);
+
+		return checkouts.length > 0;
+	}
+
+	/**
+	 * Whether the payload is a `return_url` callback, which only carries the checkout id.
+	 * The checkout is fetched from SumUp, so the callback doesn't need to be signed.
+	 */
+	private isCheckoutCallback(data: unknown): data is SumUpCheckoutCallbackPayload {
+		const callback = data as Partial<SumUpCheckoutCallbackPayload> | undefined;
+		return callback?.event_type === "CHECKOUT_STATUS_CHANGED" && typeof callback.id === "string";
+	}
+
+	/**
+	 * Whether the webhook resource is a checkout rather than a transaction
+	 */
+	private isCheckoutWebhook(data: SumUpWebhookPayload): boolean {
+		return data.resource_type === "checkout" || data.event_type.startsWith("checkout_");
+	}
+
+	/**
+	 * Finds the checkout reference of the checkout a webhook resource belongs to.
+	 * Transaction events carry a transaction id, so the transaction's checkout is
+	 * looked up when the payload doesn't include the reference.
+	 */
+	private async resolveWebhookCheckoutReference(
+		data: SumUpWebhookPayload
+	): Promise<string | undefined> {
+		if (data.resource.checkout_reference) {
+			return data.resource.checkout_reference;
+		}
+
+		if (this.isCheckoutWebhook(data)) {
+			const checkout = await this.client_.getCheckout(data.resource.id);
+			return checkout.checkout_reference;
+		}
+
+		const checkout = await this.resolveTransactionCheckout(data.resource.id);
+		return checkout.checkout_reference;
+	}
+
+	/**
+	 * Finds the checkout a transaction was charged through. SumUp reports the checkout
+	 * reference as the transaction's `foreign_transaction_id`, which is only trusted once
+	 * the checkout it names lists the transaction.
+	 * @throws {MedusaError} If the transaction doesn't belong to a checkout of a payment session
+	 */
+	private async resolveTransactionCheckout(transactionId: string): Promise<SumUpCheckoutResponse> {
+		const transaction = await this.client_.getTransaction(transactionId);
+		const checkoutReference = transaction.foreign_transaction_id;
+
+		if (!checkoutReference || !toSessionId(checkoutReference)) {
+			throw new MedusaError(
+				MedusaError.Types.NOT_FOUND,
+				`SumUp transaction ${transactionId} has no checkout reference of a payment session: ${checkoutReference ?? "none"}`
+			);
+		}
+
+		const checkouts = await this.client_.listCheckouts(checkoutReference);
+		const checkout = checkouts.find((candidate) =>
+			candidate.transactions?.some(({ id }) => id === transactionId)
+		);
+
+		if (!checkout) {
+			throw new MedusaError(
+				MedusaError.Types.NOT_FOUND,
+				`SumUp transaction ${transactionId} is not a transaction of checkout ${checkoutReference}`
+			);
+		}
+
+		return checkout;
+	}
 }
 
 export default SumUpBase;
@@ -1,6 +1,7 @@
+import { createHmac, timingSafeEqual } from "crypto";
 import SumUp from "@sumup/sdk";
-import type { AuthorizePaymentInput, AuthorizePaymentOutput, Logger } from "@medusajs/framework/types";
-import { AbstractPaymentProvider, MedusaError } from "@medusajs/framework/utils";
+import type { Logger } from "@medusajs/framework/types";
+import { MedusaError } from "@medusajs/framework/utils";
 import type {
 	ProviderOptions,
 	SumUpCheckoutData,
@@ -11,37 +12,72 @@ import type {
 	SumUpCustomerData,
 	SumUpPaymentInstrument,
 	SumUpAvailablePaymentMethods,
+	SumUpMerchant,
+	SumUpPayout,
+	SumUpTransaction,
+	SumUpTransactionHistory,
+	SumUpTransactionListParams,
+	SumUpWebhookSubscription,
 } from "../types";
+import { SUMUP_API_ENDPOINTS, SUMUP_ERROR_CODES } from "../types";
+import { assertSupportedCurrency } from "./amount";
+import {
+	CircuitBreaker,
+	DEFAULT_RESILIENCE_OPTIONS,
+	ResilienceOptions,
+	getRetryDelay,
+	isOutageError,
+	isRetryableError,
+	parseRetryAfter,
+	sleep,
+} from "./resilience";
+import { SumUpError } from "./sumup-error";
 
-type Options = {
-	apiKey: string
-	host: string
-	baseParams: Record<string, string>
-}
+/**
+ * Reads the cursor of the next transaction history page from its `next` link
+ */
+function getHistoryCursor(href: string): SumUpTransactionListParams {
+	const search = new URLSearchParams(href.slice(href.indexOf("?") + 1));
+	const cursor: SumUpTransactionListParams = {};
 
-type InjectedDependencies = {
-	logger: Logger
+	for (const key of ["newest_time", "newest_ref", "oldest_time", "oldest_ref"] as const) {
+		const value = search.get(key);
+
+		if (value) {
+			cursor[key] = value;
+		}
+	}
+
+	return cursor;
 }
 
 /**
  * SumUp client using the official TypeScript SDK for supported features
  * and fetch for features not yet available in the SDK
  */
-export class SumUpClient extends AbstractPaymentProvider<Options> {
-	static identifier = "sumup"
-
-	protected logger_: Logger
-	protected options_: Options
-	protected client: SumUp
+export class SumUpClient {
+	protected logger_: Logger;
+	protected options_: ProviderOptions;
+	protected client: SumUp;
+	protected resilience_: ResilienceOptions;
+	protected circuitBreaker_: CircuitBreaker;
 
-	constructor(
-		container: InjectedDependencies,
-		options: Options
-	) {
-		super(container, options)
+	constructor(options: ProviderOptions, logger: Logger) {
+		this.logger_ = logger;
+		this.options_ = options;
 
-		this.logger_ = container.logger
-		this.options_ = options
+		this.resilience_ = {
+			requestTimeout: options.requestTimeout ?? DEFAULT_RESILIENCE_OPTIONS.requestTimeout,
+			maxRetries: options.maxRetries ?? DEFAULT_RESILIENCE_OPTIONS.maxRetries,
+			retryBaseDelay: options.retryBaseDelay ?? DEFAULT_RESILIENCE_OPTIONS.retryBaseDelay,
+			retryMaxDelay: options.retryMaxDelay ?? DEFAULT_RESILIENCE_OPTIONS.retryMaxDelay,
+			circuitBreakerThreshold: options.circuitBreakerThreshold ?? DEFAULT_RESILIENCE_OPTIONS.circuitBreakerThreshold,
+			circuitBreakerCooldown: options.circuitBreakerCooldown ?? DEFAULT_RESILIENCE_OPTIONS.circuitBreakerCooldown,
+		};
+		this.circuitBreaker_ = new CircuitBreaker(
+			this.resilience_.circuitBreakerThreshold,
+			this.resilience_.circuitBreakerCooldown
+		);
 
 		this.client = new SumUp({
 			apiKey: options.apiKey,
@@ -50,47 +86,585 @@ export class SumUpClient extends AbstractPaymentProvider<Options> {
 		});
 	}
 
-	async authorizePayment(
-		input: AuthorizePaymentInput
-	): Promise<AuthorizePaymentOutput> {
+	/**
+	 * Gets the merchant profile of the authenticated account. Whether it is a sandbox
+	 * account is read from the merchant resource and left undefined if that fails.
+	 */
+	async getMerchant(): Promise<SumUpMerchant> {
 		try {
-			// Get the checkout ID that was stored during initiatePayment
-			const checkoutId = input.data?.checkoutId;
+			const account = await this.execute(
+				(params) => this.client.merchant.get({ "include[]": ["country_details"] }, params),
+				{ retry: true }
+			);
+			const profile = account.merchant_profile;
+			const merchantCode = profile?.merchant_code ?? "";
 
-			if (!checkoutId) {
-				throw new Error("No checkout ID found in payment data");
+			let sandbox: boolean | undefined;
+			if (merchantCode) {
+				try {
+					const merchant = await this.execute(
+						(params) => this.client.merchants.get(merchantCode, undefined, params),
+						{ retry: true }
+					);
+					sandbox = merchant.sandbox;
+				} catch (error) {
+					this.logger_.debug(`Could not read SumUp merchant ${merchantCode}: ${error.message}`);
+				}
 			}
 
-			// Retrieve the checkout to verify its status
-			const checkout = await this.client.checkouts.get(checkoutId);
+			return {
+				merchant_code: merchantCode,
+				company_name: profile?.company_name,
+				country: profile?.country,
+				locale: profile?.locale,
+				default_currency: profile?.address?.country_details?.currency,
+				sandbox,
+			};
+		} catch (error) {
+			this.handleApiError(error);
+		}
+	}
 
-			// Process the checkout if it hasn't been processed yet
-			let paymentData = checkout;
+	/**
+	 * Creates a new checkout
+	 */
+	async createCheckout(data: SumUpCheckoutData): Promise<SumUpCheckoutResponse> {
+		try {
+			const currency = assertSupportedCurrency(data.currency);
 
-			if (checkout.status === "PENDING") {
-				// Process the checkout with stored or new payment details
-				paymentData = await this.client.checkouts.process(checkoutId, {
-					payment_type: "card",
-					token: input.data?.token, // Use stored token if available
-					customer_id: input.data?.customerId
-				});
+			// The unique checkout reference guards retries, a duplicate is answered with 409
+			const checkout = await this.execute((params) => this.client.checkouts.create({
+				amount: data.amount,
+				checkout_reference: data.checkout_reference,
+				currency,
+				merchant_code: data.merchant_code,
+				description: data.description,
+				return_url: data.return_url,
+				redirect_url: data.redirect_url,
+				customer_id: data.customer_id,
+				purpose: data.purpose,
+				valid_until: data.valid_until,
+				// personal_details is accepted by the API but not typed by the SDK
+				...(data.personal_details ? { personal_details: data.personal_details } : {}),
+			}, params), { retry: true });
+
+			return this.mapCheckoutResponse(checkout);
+		} catch (error) {
+			this.handleApiError(
+				error instanceof SumUpError && error.status === 409
+					? error.withCode(SUMUP_ERROR_CODES.DUPLICATE_CHECKOUT)
+					: error
+			);
+		}
+	}
+
+	/**
+	 * Gets a checkout by its id
+	 */
+	async getCheckout(checkoutId: string): Promise<SumUpCheckoutResponse> {
+		try {
+			const checkout = await this.execute((params) => this.client.checkouts.get(checkoutId, params), { retry: true });
+
+			return this.mapCheckoutResponse(checkout);
+		} catch (error) {
+			this.handleApiError(error);
+		}
+	}
+
+	/**
+	 * Lists checkouts, optionally filtered by checkout reference
+	 */
+	async listCheckouts(checkoutReference?: string): Promise<SumUpCheckoutResponse[]> {
+		try {
+			const checkouts = await this.execute((params) => this.client.checkouts.list(
+				checkoutReference ? { checkout_reference: checkoutReference } : undefined,
+				params
+			), { retry: true });
+
+			return (checkouts || []).map((checkout) => this.mapCheckoutResponse(checkout));
+		} catch (error) {
+			this.handleApiError(error);
+		}
+	}
+
+	/**
+	 * Deactivates a pending checkout
+	 */
+	async deactivateCheckout(checkoutId: string): Promise<SumUpCheckoutResponse> {
+		try {
+			const checkout = await this.execute((params) => this.client.checkouts.deactivate(checkoutId, params), { retry: true });
+
+			return this.mapCheckoutResponse(checkout);
+		} catch (error) {
+			this.handleApiError(error);
+		}
+	}
+
+	/**
+	 * Processes a checkout - uses fetch, as the SDK only types card and bank payment types
+	 */
+	async processCheckout(
+		checkoutId: string,
+		data: SumUpPaymentProcessData
+	): Promise<SumUpPaymentProcessResponse> {
+		const response = await this.fetchWithAuth<SumUpPaymentProcessResponse>(`/v0.1/checkouts/${checkoutId}`, {
+			method: "PUT",
+			body: JSON.stringify(data),
+		});
+
+		return this.mapProcessResponse(response);
+	}
+
+	/**
+	 * Creates an Apple Pay merchant session for a checkout - not available in SDK
+	 * @param context - The domain the Apple Pay sheet is shown on
+	 * @param target - The validation URL provided by Apple Pay JS
+	 */
+	async createApplePaySession(
+		checkoutId: string,
+		data: { context: string; target: string }
+	): Promise<Record<string, unknown>> {
+		return this.fetchWithAuth<Record<string, unknown>>(
+			`/v0.2/checkouts/${checkoutId}/apple-pay-session`,
+			{
+				method: "PUT",
+				body: JSON.stringify(data),
+			}
+		);
+	}
+
+	/**
+	 * Gets a transaction by its id. The SDK leaves `foreign_transaction_id` untyped,
+	 * the transaction type declares it.
+	 */
+	async getTransaction(transactionId: string): Promise<SumUpTransaction> {
+		try {
+			const transaction = await this.execute(
+				(params) => this.client.transactions.getDeprecated({ id: transactionId }, params),
+				{ retry: true }
+			);
+
+			return transaction as SumUpTransaction;
+		} catch (error) {
+			this.handleApiError(error);
+		}
+	}
+
+	/**
+	 * Lists a page of the transaction history of the merchant
+	 */
+	async listTransactions(params: SumUpTransactionListParams = {}): Promise<SumUpTransactionHistory> {
+		try {
+			const history = await this.execute(
+				(fetchParams) => this.client.transactions.listDeprecated(params, fetchParams),
+				{ retry: true }
+			);
+
+			return {
+				items: (history?.items || []) as SumUpTransaction[],
+				links: (history?.links || []).flatMap(({ rel, href }) => rel && href ? [{ rel, href }] : []),
+			};
+		} catch (error) {
+			this.handleApiError(error);
+		}
+	}
+
+	/**
+	 * Lists all transactions matching the filters, following the history's `next` links
+	 * @param maxPages - Pages fetched at most, guarding against links that never end
+	 */
+	async listAllTransactions(
+		params: SumUpTransactionListParams = {},
+		maxPages = 100
+	): Promise<SumUpTransaction[]> {
+		let page = await this.listTransactions(params);
+		const transactions = [...page.items];
+
+		for (let pages = 1; pages < maxPages; pages++) {
+			const next = page.links?.find((link) => link.rel === "next")?.href;
+
+			if (!next || page.items.length === 0) {
+				break;
 			}
 
-			// Return the authorized payment data
+			page = await this.listTransactions({ ...params, ...getHistoryCursor(next) });
+			transactions.push(...page.items);
+		}
+
+		return transactions;
+	}
+
+	/**
+	 * Refunds a transaction fully or partially. SumUp has no idempotency key for
+	 * refunds, so they are never retried.
+	 */
+	async refundTransaction(transactionId: string, refundData?: SumUpRefundData): Promise<void> {
+		try {
+			await this.execute((params) => this.client.transactions.refund(transactionId, refundData, params));
+		} catch (error) {
+			this.handleApiError(error);
+		}
+	}
+
+	/**
+	 * Creates a customer. A customer with the same id is answered with 409.
+	 */
+	async createCustomer(data: SumUpCustomerData): Promise<SumUpCustomerData> {
+		try {
+			const customer = await this.execute((params) => this.client.customers.create(data, params));
+
+			return customer as SumUpCustomerData;
+		} catch (error) {
+			this.handleApiError(
+				error instanceof SumUpError && error.status === 409
+					? error.withCode(SUMUP_ERROR_CODES.DUPLICATE_CUSTOMER)
+					: error
+			);
+		}
+	}
+
+	/**
+	 * Gets a customer by its id
+	 */
+	async getCustomer(customerId: string): Promise<SumUpCustomerData> {
+		try {
+			const customer = await this.execute((params) => this.client.customers.get(customerId, params), { retry: true });
+
+			return customer as SumUpCustomerData;
+		} catch (error) {
+			this.handleApiError(error);
+		}
+	}
+
+	/**
+	 * Updates the personal details of a customer
+	 */
+	async updateCustomer(
+		customerId: string,
+		personalDetails: SumUpCustomerData["personal_details"]
+	): Promise<SumUpCustomerData> {
+		try {
+			const customer = await this.execute((params) => this.client.customers.update(customerId, {
+				personal_details: personalDetails,
+			}, params), { retry: true });
+
+			return customer as SumUpCustomerData;
+		} catch (error) {
+			this.handleApiError(error);
+		}
+	}
+
+	/**
+	 * Lists the payment instruments saved for a customer
+	 */
+	async listCustomerPaymentInstruments(customerId: string): Promise<SumUpPaymentInstrument[]> {
+		try {
+			const instruments = await this.execute(
+				(params) => this.client.customers.listPaymentInstruments(customerId, params),
+				{ retry: true }
+			);
+
+			return (instruments || []).map((instrument) => ({
+				token: instrument.token ?? "",
+				active: instrument.active ?? false,
+				created_at: instrument.created_at ?? "",
+				card: instrument.card
+					? {
+						type: instrument.card.type ?? "UNKNOWN",
+						last_4_digits: instrument.card.last_4_digits ?? "",
+					}
+					: undefined,
+			}));
+		} catch (error) {
+			this.handleApiError(error);
+		}
+	}
+
+	/**
+	 * Deactivates a payment instrument saved for a customer
+	 */
+	async deactivateCustomerPaymentInstrument(customerId: string, token: string): Promise<void> {
+		try {
+			await this.execute(
+				(params) => this.client.customers.deactivatePaymentInstrument(customerId, token, params),
+				{ retry: true }
+			);
+		} catch (error) {
+			this.handleApiError(error);
+		}
+	}
+
+	/**
+	 * Gets the payment methods available to a merchant for an amount and currency
+	 */
+	async getAvailablePaymentMethods(
+		merchantCode: string,
+		amount?: number,
+		currency?: string
+	): Promise<SumUpAvailablePaymentMethods> {
+		try {
+			const methods = await this.execute((params) => this.client.checkouts.listAvailablePaymentMethods(merchantCode, {
+				amount,
+				currency,
+			}, params), { retry: true });
+
 			return {
-				data: {
-					checkoutId: paymentData.id,
-					transactionId: paymentData.transaction_id,
-					status: paymentData.status,
-					amount: paymentData.amount,
-					currency: paymentData.currency,
-					// Store additional data for later capture
-					raw_response: paymentData
-				},
-				status: "authorized" // Medusa expects this status
+				available_payment_methods: (methods?.available_payment_methods || []).map((method) => ({
+					id: method.id,
+					// The API may name a method, the SDK only types its id
+					name: "name" in method && typeof method.name === "string" ? method.name : method.id,
+				})),
 			};
 		} catch (error) {
-			throw new Error(`SumUp authorization failed: ${error.message}`);
+			this.handleApiError(error);
 		}
 	}
+
+	/**
+	 * Lists the payout lines of a merchant for a date range
+	 * @param startDate - First day, as YYYY-MM-DD
+	 * @param endDate - Last day, as YYYY-MM-DD
+	 */
+	async listPayouts(merchantCode: string, startDate: string, endDate: string): Promise<SumUpPayout[]> {
+		try {
+			const payouts = await this.execute((params) => this.client.payouts.list(merchantCode, {
+				start_date: startDate,
+				end_date: endDate,
+				format: "json",
+				order: "asc",
+			}, params), { retry: true });
+
+			return (payouts || []).map((payout) => ({
+				id: String(payout.id ?? ""),
+				transaction_code: payout.transaction_code,
+				amount: payout.amount ?? 0,
+				fee: payout.fee ?? 0,
+				currency: payout.currency ?? "",
+				date: payout.date ?? "",
+				reference: payout.reference,
+				status: payout.status,
+				type: payout.type ?? "PAYOUT",
+			}));
+		} catch (error) {
+			this.handleApiError(error);
+		}
+	}
+
+	/**
+	 * Lists the webhook subscriptions of the merchant - not available in SDK
+	 */
+	async listWebhooks(): Promise<SumUpWebhookSubscription[]> {
+		const webhooks = await this.fetchWithAuth<SumUpWebhookSubscription[]>("/v0.1/me/webhooks", {}, { retry: true });
+
+		return webhooks || [];
+	}
+
+	/**
+	 * Creates a webhook subscription for the merchant - not available in SDK
+	 */
+	async createWebhook(
+		data: Omit<SumUpWebhookSubscription, "id" | "active">
+	): Promise<SumUpWebhookSubscription> {
+		return this.fetchWithAuth<SumUpWebhookSubscription>("/v0.1/me/webhooks", {
+			method: "POST",
+			body: JSON.stringify(data),
+		});
+	}
+
+	/**
+	 * Validates the HMAC-SHA256 signature SumUp sends along with a webhook payload
+	 */
+	validateWebhookSignature(rawBody: string | Buffer, signature?: string): boolean {
+		const secret = this.options_.webhookSecret;
+
+		if (!secret || !signature) {
+			return false;
+		}
+
+		const expected = Buffer.from(createHmac("sha256", secret).update(rawBody).digest("hex"));
+		const received = Buffer.from(signature.replace(/^sha256=/, ""));
+
+		return expected.length === received.length && timingSafeEqual(expected, received);
+	}
+
+	/**
+	 * Performs an authenticated request against the SumUp API
+	 * @param options.retry - Whether the request is safe to retry
+	 */
+	private async fetchWithAuth<T>(
+		path: string,
+		init: RequestInit = {},
+		options: { retry?: boolean } = {}
+	): Promise<T> {
+		const host = this.options_.host || SUMUP_API_ENDPOINTS.PRODUCTION;
+		const baseParams = this.options_.baseParams || {};
+
+		try {
+			return await this.execute(async (params) => {
+				const response = await fetch(`${host}${path}`, {
+					...baseParams,
+					...init,
+					...params,
+					headers: {
+						...(baseParams.headers || {}),
+						...(init.headers || {}),
+						Authorization: `Bearer ${this.options_.apiKey}`,
+						"Content-Type": "application/json",
+						Accept: "application/json",
+					},
+				});
+
+				const text = await response.text();
+				const body = text ? this.parseJson(text) : undefined;
+
+				if (!response.ok) {
+					// Same shape as the SDK's APIError
+					throw { status: response.status, error: body ?? text, response };
+				}
+
+				return body as T;
+			}, options);
+		} catch (error) {
+			this.handleApiError(error);
+		}
+	}
+
+	/**
+	 * Runs a request with a timeout and the circuit breaker. Safe requests are retried
+	 * with exponential backoff after network errors, 429 and 5xx responses.
+	 * @throws {SumUpError} If the request fails or the circuit is open
+	 */
+	private async execute<T>(
+		request: (params: { signal: AbortSignal }) => Promise<T>,
+		options: { retry?: boolean } = {}
+	): Promise<T> {
+		const maxRetries = options.retry ? this.resilience_.maxRetries : 0;
+
+		for (let attempt = 0; ; attempt++) {
+			this.circuitBreaker_.assertClosed();
+
+			try {
+				const result = await request({ signal: AbortSignal.timeout(this.resilience_.requestTimeout) });
+				this.circuitBreaker_.recordSuccess();
+				return result;
+			} catch (error) {
+				const sumUpError = this.toSumUpError(error);
+
+				if (!isOutageError(sumUpError)) {
+					this.circuitBreaker_.recordSuccess();
+				} else if (this.circuitBreaker_.recordFailure()) {
+					this.logger_.error(
+						`SumUp circuit breaker opened, requests are rejected for ${this.resilience_.circuitBreakerCooldown}ms`
+					);
+				}
+
+				const delay = attempt < maxRetries && isRetryableError(sumUpError)
+					? getRetryDelay(attempt, this.resilience_, sumUpError.retryAfter)
+					: undefined;
+
+				if (delay === undefined) {
+					throw sumUpError;
+				}
+
+				this.logger_.warn(
+					`Retrying SumUp request in ${delay}ms (${attempt + 1}/${maxRetries}): ${sumUpError.details}`
+				);
+				await sleep(delay);
+			}
+		}
+	}
+
+	/**
+	 * Parses a JSON response body, returning the raw text if it isn't JSON
+	 */
+	private parseJson(text: string): any {
+		try {
+			return JSON.parse(text);
+		} catch {
+			return text;
+		}
+	}
+
+	/**
+	 * Maps an SDK checkout to the provider's checkout shape
+	 */
+	private mapCheckoutResponse(checkout: any): SumUpCheckoutResponse {
+		return {
+			id: checkout.id,
+			checkout_reference: checkout.checkout_reference,
+			amount: checkout.amount,
+			currency: checkout.currency,
+			status: checkout.status,
+			date: checkout.date,
+			description: checkout.description,
+			merchant_code: checkout.merchant_code,
+			merchant_country: checkout.merchant_country,
+			merchant_name: checkout.merchant_name,
+			purpose: checkout.purpose || "CHECKOUT",
+			transactions: checkout.transactions,
+			redirect_url: checkout.redirect_url,
+			return_url: checkout.return_url,
+			customer_id: checkout.customer_id,
+			valid_until: checkout.valid_until ?? undefined,
+			payment_instrument: checkout.payment_instrument,
+		};
+	}
+
+	/**
+	 * Maps a process checkout response, which is either the processed
+	 * checkout or a `next_step` the shopper has to complete first
+	 */
+	private mapProcessResponse(response: SumUpPaymentProcessResponse): SumUpPaymentProcessResponse {
+		if (response?.next_step) {
+			return {
+				status: "PENDING",
+				next_step: response.next_step,
+				checkout_reference: response.checkout_reference,
+				amount: response.amount,
+				currency: response.currency,
+			};
+		}
+
+		return {
+			status: response.status,
+			transaction_code: response.transaction_code,
+			transaction_id: response.transaction_id,
+			checkout_reference: response.checkout_reference,
+			amount: response.amount,
+			currency: response.currency,
+		};
+	}
+
+	/**
+	 * Converts SDK and fetch errors into a SumUpError
+	 */
+	private toSumUpError(error: any): SumUpError {
+		if (error instanceof SumUpError) {
+			return error;
+		}
+
+		return error?.status
+			? SumUpError.fromResponse(
+				error.status,
+				error.error,
+				parseRetryAfter(error.response?.headers?.get?.("retry-after"))
+			)
+			: SumUpError.fromNetworkError(error);
+	}
+
+	/**
+	 * Logs the details SumUp reported and rethrows the error as SumUpError
+	 */
+	private handleApiError(error: any): never {
+		if (error instanceof MedusaError && !(error instanceof SumUpError)) {
+			throw error;
+		}
+
+		const sumUpError = this.toSumUpError(error);
+
+		this.logger_.error(`SumUp API Error [${sumUpError.code}]: ${sumUpError.details}`);
+
+		throw sumUpError;
+	}
+
 }
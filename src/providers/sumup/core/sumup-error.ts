@@ -0,0 +1,214 @@
+import { MedusaError } from "@medusajs/framework/utils";
+import { SUMUP_ERROR_CODES, SumUpErrorCode, SumUpErrorResponse } from "../types";
+
+/**
+ * How an error is classified: the Medusa error type, the user-safe code and message
+ */
+type SumUpErrorClassification = {
+	type: string;
+	code: SumUpErrorCode;
+	message: string;
+};
+
+const CLASSIFICATIONS: Record<SumUpErrorCode, SumUpErrorClassification> = {
+	[SUMUP_ERROR_CODES.PAYMENT_DECLINED]: {
+		type: MedusaError.Types.PAYMENT_AUTHORIZATION_ERROR,
+		code: SUMUP_ERROR_CODES.PAYMENT_DECLINED,
+		message: "The payment was declined",
+	},
+	[SUMUP_ERROR_CODES.PAYMENT_CANCELED]: {
+		type: MedusaError.Types.PAYMENT_AUTHORIZATION_ERROR,
+		code: SUMUP_ERROR_CODES.PAYMENT_CANCELED,
+		message: "The payment was canceled",
+	},
+	[SUMUP_ERROR_CODES.AUTHENTICATION_REQUIRED]: {
+		type: MedusaError.Types.PAYMENT_REQUIRES_MORE_ERROR,
+		code: SUMUP_ERROR_CODES.AUTHENTICATION_REQUIRED,
+		message: "The card issuer requires the customer to authenticate the payment",
+	},
+	[SUMUP_ERROR_CODES.UNSUPPORTED_NETWORK]: {
+		type: MedusaError.Types.INVALID_DATA,
+		code: SUMUP_ERROR_CODES.UNSUPPORTED_NETWORK,
+		message: "The card network is not supported",
+	},
+	[SUMUP_ERROR_CODES.RECURRING_TOKEN_REVOKED]: {
+		type: MedusaError.Types.PAYMENT_AUTHORIZATION_ERROR,
+		code: SUMUP_ERROR_CODES.RECURRING_TOKEN_REVOKED,
+		message: "The saved payment method was revoked or has expired",
+	},
+	[SUMUP_ERROR_CODES.INVALID_CARD]: {
+		type: MedusaError.Types.INVALID_DATA,
+		code: SUMUP_ERROR_CODES.INVALID_CARD,
+		message: "The card details are invalid",
+	},
+	[SUMUP_ERROR_CODES.CHECKOUT_EXPIRED]: {
+		type: MedusaError.Types.UNEXPECTED_STATE,
+		code: SUMUP_ERROR_CODES.CHECKOUT_EXPIRED,
+		message: "The payment session has expired",
+	},
+	[SUMUP_ERROR_CODES.CHECKOUT_PROCESSED]: {
+		type: MedusaError.Types.CONFLICT,
+		code: SUMUP_ERROR_CODES.CHECKOUT_PROCESSED,
+		message: "The payment has already been processed",
+	},
+	[SUMUP_ERROR_CODES.DUPLICATE_CHECKOUT]: {
+		type: MedusaError.Types.DUPLICATE_ERROR,
+		code: SUMUP_ERROR_CODES.DUPLICATE_CHECKOUT,
+		message: "The payment has already been created",
+	},
+	[SUMUP_ERROR_CODES.DUPLICATE_CUSTOMER]: {
+		type: MedusaError.Types.DUPLICATE_ERROR,
+		code: SUMUP_ERROR_CODES.DUPLICATE_CUSTOMER,
+		message: "The customer has already been created",
+	},
+	[SUMUP_ERROR_CODES.INVALID_REQUEST]: {
+		type: MedusaError.Types.INVALID_DATA,
+		code: SUMUP_ERROR_CODES.INVALID_REQUEST,
+		message: "The payment details are invalid",
+	},
+	[SUMUP_ERROR_CODES.NOT_FOUND]: {
+		type: MedusaError.Types.NOT_FOUND,
+		code: SUMUP_ERROR_CODES.NOT_FOUND,
+		message: "The payment could not be found",
+	},
+	[SUMUP_ERROR_CODES.PROVIDER_UNAVAILABLE]: {
+		type: MedusaError.Types.UNEXPECTED_STATE,
+		code: SUMUP_ERROR_CODES.PROVIDER_UNAVAILABLE,
+		message: "Payments are temporarily unavailable, please try again later",
+	},
+	[SUMUP_ERROR_CODES.PAYMENT_FAILED]: {
+		type: MedusaError.Types.PAYMENT_AUTHORIZATION_ERROR,
+		code: SUMUP_ERROR_CODES.PAYMENT_FAILED,
+		message: "The payment could not be completed",
+	},
+};
+
+/**
+ * Returns the user-safe message of an error code
+ */
+export function getErrorMessage(code: SumUpErrorCode): string {
+	return CLASSIFICATIONS[code].message;
+}
+
+/**
+ * Error returned by the SumUp API. The `message` and `code` are safe to show to
+ * shoppers, while `details` keeps what SumUp reported for logs.
+ */
+export class SumUpError extends MedusaError {
+	readonly code: SumUpErrorCode;
+	readonly status?: number;
+	readonly errorCode?: string;
+	readonly param?: string;
+	readonly retryAfter?: number;
+	readonly details: string;
+
+	/**
+	 * @param response.retry_after - Milliseconds SumUp asked to wait before retrying
+	 */
+	constructor(
+		code: SumUpErrorCode,
+		details: string,
+		response: { status?: number; error_code?: string; param?: string; retry_after?: number } = {}
+	) {
+		const classification = CLASSIFICATIONS[code];
+
+		super(classification.type, classification.message, code);
+
+		this.name = "SumUpError";
+		this.code = code;
+		this.status = response.status;
+		this.errorCode = response.error_code;
+		this.param = response.param;
+		this.retryAfter = response.retry_after;
+		this.details = details;
+	}
+
+	/**
+	 * Returns the error with another code, for callers that know what the status means
+	 * for their request
+	 */
+	withCode(code: SumUpErrorCode): SumUpError {
+		return new SumUpError(code, this.details, {
+			status: this.status,
+			error_code: this.errorCode,
+			param: this.param,
+			retry_after: this.retryAfter,
+		});
+	}
+
+	/**
+	 * Parses an error response of the SumUp API. SumUp answers with a single error
+	 * object or a list of them for validation errors.
+	 */
+	static fromResponse(status: number | undefined, body: unknown, retryAfter?: number): SumUpError {
+		const error = (Array.isArray(body) ? body[0] : body) as Partial<SumUpErrorResponse> | string | undefined;
+		const response = typeof error === "object" && error ? error : {};
+		const message = response.message || (typeof error === "string" && error) || "Unknown error";
+
+		const details = [
+			status && `HTTP ${status}`,
+			response.error_code,
+			response.param && `param ${response.param}`,
+		].filter(Boolean).join(", ");
+
+		return new SumUpError(
+			classify(status, response),
+			`${message}${details ? ` (${details})` : ""}`,
+			{ status, error_code: response.error_code, param: response.param, retry_after: retryAfter }
+		);
+	}
+
+	/**
+	 * Wraps an error thrown before SumUp answered, such as a network failure
+	 */
+	static fromNetworkError(error: Error): SumUpError {
+		return new SumUpError(SUMUP_ERROR_CODES.PROVIDER_UNAVAILABLE, error.message);
+	}
+}
+
+/**
+ * Derives the user-safe error code from the HTTP status and SumUp error code
+ */
+function classify(status: number | undefined, response: Partial<SumUpErrorResponse>): SumUpErrorCode {
+	const errorCode = response.error_code?.toUpperCase() ?? "";
+
+	if (errorCode === "DUPLICATED_CHECKOUT") {
+		return SUMUP_ERROR_CODES.DUPLICATE_CHECKOUT;
+	}
+
+	if (errorCode === "CHECKOUT_PROCESSED") {
+		return SUMUP_ERROR_CODES.CHECKOUT_PROCESSED;
+	}
+
+	if (errorCode.includes("EXPIRED")) {
+		return SUMUP_ERROR_CODES.CHECKOUT_EXPIRED;
+	}
+
+	// Conflicts on an existing checkout mean it was already processed or deactivated
+	if (status === 409) {
+		return SUMUP_ERROR_CODES.CHECKOUT_PROCESSED;
+	}
+
+	if (status === 402 || errorCode.includes("DECLINED")) {
+		return SUMUP_ERROR_CODES.PAYMENT_DECLINED;
+	}
+
+	if (response.param?.startsWith("card") || errorCode.includes("CARD")) {
+		return SUMUP_ERROR_CODES.INVALID_CARD;
+	}
+
+	if (status === 404 || errorCode === "NOT_FOUND") {
+		return SUMUP_ERROR_CODES.NOT_FOUND;
+	}
+
+	// Credential or permission problems are the merchant's to fix, not the shopper's
+	if (status === 401 || status === 403 || status === 429 || (status && status >= 500)) {
+		return SUMUP_ERROR_CODES.PROVIDER_UNAVAILABLE;
+	}
+
+	if (status === 400 || status === 422) {
+		return SUMUP_ERROR_CODES.INVALID_REQUEST;
+	}
+
+	return SUMUP_ERROR_CODES.PAYMENT_FAILED;
+}
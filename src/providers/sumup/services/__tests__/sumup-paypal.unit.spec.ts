@@ -0,0 +1,52 @@
+import type { AuthorizePaymentInput } from "@medusajs/framework/types";
+import { PaymentSessionStatus } from "@medusajs/framework/utils";
+import { checkout, createProvider } from "../../core/__tests__/fixtures";
+import SumUpPayPalService from "../sumup-paypal";
+
+jest.mock("../../core/sumup-client");
+
+const input: AuthorizePaymentInput = {
+	data: {
+		id: "chk_1",
+		personal_details: {
+			email: "shopper@example.com",
+			first_name: "Ada",
+			last_name: "Lovelace",
+			address: { country: "DE" },
+		},
+	},
+};
+
+const processed = {
+	status: "PENDING" as const,
+	checkout_reference: "medusa-payses_1",
+	amount: 10,
+	currency: "EUR",
+};
+
+describe("SumUpPayPalService.authorizePayment", () => {
+	it("stores the PayPal redirect of the next step", async () => {
+		const { provider, client } = createProvider({}, SumUpPayPalService);
+		client.processCheckout.mockResolvedValue({
+			...processed,
+			next_step: { url: "https://paypal.test/approve", method: "GET" },
+		});
+
+		const result = await provider.authorizePayment(input);
+
+		expect(client.processCheckout).toHaveBeenCalledWith("chk_1", expect.objectContaining({ payment_type: "paypal" }));
+		expect(result.status).toBe(PaymentSessionStatus.REQUIRES_MORE);
+		expect(result.data?.paypal_redirect_url).toBe("https://paypal.test/approve");
+	});
+
+	it("doesn't store a redirect when SumUp answers without a next step", async () => {
+		const { provider, client } = createProvider({}, SumUpPayPalService);
+		client.processCheckout.mockResolvedValue(processed);
+		client.getCheckout.mockResolvedValue(checkout());
+
+		const result = await provider.authorizePayment(input);
+
+		expect(result.status).toBe(PaymentSessionStatus.PENDING);
+		expect(result.data).not.toHaveProperty("paypal_redirect_url");
+	});
+});
@@ -1,3 +1,5 @@
+import { AuthorizePaymentInput, AuthorizePaymentOutput } from "@medusajs/types";
+import { MedusaError } from "@medusajs/framework/utils";
 import SumUpBase from "../core/sumup-base";
 import { PaymentProviderKeys } from "../types";
 
@@ -10,6 +12,72 @@ class SumUpApplePayService extends SumUpBase {
 	get webhookUrl(): string {
 		return `${this.options_.medusaUrl}/hooks/payment/${PaymentProviderKeys.SUMUP_APPLE_PAY}_sumup`;
 	}
+
+	/**
+	 * Performs the Apple Pay merchant validation through SumUp
+	 * @param checkoutId - The SumUp checkout of the payment session
+	 * @param validationUrl - The validation URL from the `onvalidatemerchant` event
+	 * @param domain - The domain the Apple Pay sheet is shown on
+	 * @returns The opaque merchant session to pass to `completeMerchantValidation`
+	 */
+	async validateMerchant(
+		checkoutId: string,
+		validationUrl: string,
+		domain: string
+	): Promise<Record<string, unknown>> {
+		let hostname: string;
+
+		try {
+			hostname = new URL(validationUrl).hostname;
+		} catch {
+			hostname = "";
+		}
+
+		// Apple only ever hands out validation URLs on its own domain
+		if (hostname !== "apple.com" && !hostname.endsWith(".apple.com")) {
+			throw new MedusaError(
+				MedusaError.Types.INVALID_DATA,
+				"Apple Pay validation URL must be an apple.com URL"
+			);
+		}
+
+		try {
+			return await this.client_.createApplePaySession(checkoutId, {
+				context: domain,
+				target: validationUrl,
+			});
+		} catch (error) {
+			this.logger_.error("Failed to validate Apple Pay merchant", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Authorizes an Apple Pay payment by processing the checkout with the
+	 * `apple_pay_token` from session data, or reads the checkout status
+	 * when no token was supplied
+	 */
+	async authorizePayment(input: AuthorizePaymentInput): Promise<AuthorizePaymentOutput> {
+		try {
+			const token = input.data?.apple_pay_token;
+
+			if (!token || input.data?.next_step) {
+				return await this.authorizeFromCheckout(input);
+			}
+
+			return await this.processCheckoutPayment(
+				input,
+				{
+					payment_type: "apple_pay",
+					apple_pay: { token },
+				},
+				["apple_pay_token"]
+			);
+		} catch (error) {
+			this.logger_.error("Failed to authorize SumUp Apple Pay payment", error);
+			throw error;
+		}
+	}
 }
 
 export default SumUpApplePayService;
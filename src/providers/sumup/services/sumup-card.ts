@@ -1,5 +1,9 @@
+import { AuthorizePaymentInput, AuthorizePaymentOutput } from "@medusajs/types";
+import { MedusaError, PaymentSessionStatus } from "@medusajs/framework/utils";
+import { isFinalUnpaidStatus } from "../core/payment-status";
 import SumUpBase from "../core/sumup-base";
-import { PaymentProviderKeys } from "../types";
+import { SumUpError } from "../core/sumup-error";
+import { PaymentProviderKeys, SUMUP_ERROR_CODES, SumUpPaymentProcessData } from "../types";
 
 class SumUpCardService extends SumUpBase {
 	static identifier = PaymentProviderKeys.SUMUP_CARD;
@@ -10,6 +14,116 @@ class SumUpCardService extends SumUpBase {
 	get webhookUrl(): string {
 		return `${this.options_.medusaUrl}/hooks/payment/${PaymentProviderKeys.SUMUP_CARD}_sumup`;
 	}
+
+	/**
+	 * Authorizes a card payment. The checkout is processed server-side with the
+	 * `card_token` in session data. Without it (the card widget already processed it)
+	 * or after a 3DS challenge, the status is read from the checkout. Sessions with a
+	 * `recurring_token` are charged off-session. Raw card details are rejected, since
+	 * Medusa stores session data before it is authorized.
+	 * @throws {MedusaError} If the session data holds raw card details
+	 */
+	async authorizePayment(input: AuthorizePaymentInput): Promise<AuthorizePaymentOutput> {
+		try {
+			const data = input.data || {};
+
+			if (data.recurring_token && data.purpose !== "SETUP_RECURRING_PAYMENT" && !data.payment_type) {
+				return await this.chargeRecurringPayment(input);
+			}
+
+			if (data.card) {
+				throw new MedusaError(
+					MedusaError.Types.INVALID_DATA,
+					"Card details are not accepted in payment session data. Use a card_token or the SumUp Card Widget."
+				);
+			}
+
+			if (data.next_step || !data.card_token) {
+				return await this.authorizeFromCheckout(input);
+			}
+
+			const processData: SumUpPaymentProcessData = {
+				payment_type: "card",
+				token: data.card_token as string | undefined,
+				customer_id: data.customer_id as string | undefined,
+			};
+
+			if (data.purpose === "SETUP_RECURRING_PAYMENT") {
+				processData.mandate = {
+					type: "recurrent",
+					user_agent: (data.user_agent as string | undefined) || "Medusa",
+					user_ip: data.user_ip as string | undefined,
+				};
+			}
+
+			return await this.processCheckoutPayment(input, processData, ["card_token"]);
+		} catch (error) {
+			this.logger_.error("Failed to authorize SumUp card payment", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Charges a renewal with the card saved by a recurring setup checkout. There is no
+	 * shopper to complete a challenge, so anything but a paid checkout ends in ERROR
+	 * with an `error.code` the subscription workflow can act on. When SumUp can't be
+	 * reached while processing, the outcome is read from the checkout instead.
+	 */
+	private async chargeRecurringPayment(input: AuthorizePaymentInput): Promise<AuthorizePaymentOutput> {
+		const token = input.data?.recurring_token as string;
+		const customerId = input.data?.customer_id as string | undefined;
+
+		if (!customerId) {
+			throw new MedusaError(
+				MedusaError.Types.INVALID_DATA,
+				"Customer ID is required for recurring payments"
+			);
+		}
+
+		const instruments = await this.client_.listCustomerPaymentInstruments(customerId);
+		const instrument = instruments.find((candidate) => candidate.token === token);
+
+		if (!instrument?.active) {
+			this.logger_.warn(`SumUp recurring token for customer ${customerId} is revoked or expired`);
+			return this.rejectPayment(input, SUMUP_ERROR_CODES.RECURRING_TOKEN_REVOKED);
+		}
+
+		let result: AuthorizePaymentOutput;
+		try {
+			result = await this.processCheckoutPayment(input, {
+				payment_type: "card",
+				token,
+				customer_id: customerId,
+			});
+		} catch (error) {
+			if (!this.isUnknownOutcomeError(error)) {
+				return this.rejectPayment(
+					input,
+					error instanceof SumUpError ? error.code : SUMUP_ERROR_CODES.PAYMENT_FAILED
+				);
+			}
+
+			this.logger_.warn(`SumUp recurring charge outcome unknown, reading checkout: ${error.message}`);
+			result = await this.authorizeFromCheckout(input);
+		}
+
+		if (result.status === PaymentSessionStatus.REQUIRES_MORE) {
+			return this.rejectPayment(
+				{ ...input, data: { ...result.data, next_step: undefined } },
+				SUMUP_ERROR_CODES.AUTHENTICATION_REQUIRED
+			);
+		}
+
+		// Off-session there is no shopper to retry a declined charge, so it fails the session
+		const declined = (result.data?.error as { code?: string } | undefined)?.code ===
+			SUMUP_ERROR_CODES.PAYMENT_DECLINED;
+
+		if (isFinalUnpaidStatus(result.status) || declined) {
+			return this.rejectPayment({ ...input, data: result.data }, SUMUP_ERROR_CODES.PAYMENT_DECLINED);
+		}
+
+		return result;
+	}
 }
 
 export default SumUpCardService;
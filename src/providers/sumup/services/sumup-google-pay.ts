@@ -1,5 +1,16 @@
+import { AuthorizePaymentInput, AuthorizePaymentOutput } from "@medusajs/types";
+import { MedusaError, PaymentSessionStatus } from "@medusajs/framework/utils";
+import { formatSumUpAmount } from "../core/amount";
+import { isFinalUnpaidStatus } from "../core/payment-status";
 import SumUpBase from "../core/sumup-base";
-import { PaymentProviderKeys } from "../types";
+import { SumUpError } from "../core/sumup-error";
+import {
+	PaymentProviderKeys,
+	SUMUP_ERROR_CODES,
+	SUMUP_GOOGLE_PAY_ALLOWED_NETWORKS,
+	SumUpGooglePayPaymentDataRequest,
+	SumUpPaymentProcessData,
+} from "../types";
 
 class SumUpGooglePayService extends SumUpBase {
 	static identifier = PaymentProviderKeys.SUMUP_GOOGLE_PAY;
@@ -10,6 +21,119 @@ class SumUpGooglePayService extends SumUpBase {
 	get webhookUrl(): string {
 		return `${this.options_.medusaUrl}/hooks/payment/${PaymentProviderKeys.SUMUP_GOOGLE_PAY}_sumup`;
 	}
+
+	/**
+	 * Builds the Google Pay `PaymentDataRequest` for a payment session
+	 * @param sessionData - The data of the `sumup-google-pay` payment session
+	 */
+	getPaymentDataRequest(sessionData: Record<string, unknown>): SumUpGooglePayPaymentDataRequest {
+		const merchantCode = (sessionData.merchant_code as string) || this.options_.merchantCode;
+
+		if (!merchantCode) {
+			throw new MedusaError(
+				MedusaError.Types.INVALID_DATA,
+				"Payment session has no SumUp merchant code"
+			);
+		}
+
+		return {
+			apiVersion: 2,
+			apiVersionMinor: 0,
+			environment: this.options_.environment === "live" ? "PRODUCTION" : "TEST",
+			allowedPaymentMethods: [
+				{
+					type: "CARD",
+					parameters: {
+						allowedAuthMethods: ["PAN_ONLY", "CRYPTOGRAM_3DS"],
+						allowedCardNetworks: [...SUMUP_GOOGLE_PAY_ALLOWED_NETWORKS],
+					},
+					tokenizationSpecification: {
+						type: "PAYMENT_GATEWAY",
+						parameters: {
+							gateway: "sumup",
+							gatewayMerchantId: merchantCode,
+						},
+					},
+				},
+			],
+			merchantInfo: {
+				merchantId: this.options_.googlePayMerchantId,
+				merchantName: this.options_.googlePayMerchantName,
+			},
+			transactionInfo: {
+				totalPriceStatus: "FINAL",
+				totalPrice: formatSumUpAmount(sessionData.amount as number, sessionData.currency as string),
+				currencyCode: String(sessionData.currency),
+			},
+		};
+	}
+
+	/**
+	 * Authorizes a Google Pay payment by processing the checkout with the
+	 * `google_pay_payment_data` returned by `loadPaymentData`. Declines and
+	 * rejected payment data end the session in ERROR with the reason in
+	 * `data.error` instead of throwing. When SumUp can't be reached while
+	 * processing, the outcome is read from the checkout instead.
+	 */
+	async authorizePayment(input: AuthorizePaymentInput): Promise<AuthorizePaymentOutput> {
+		const paymentData = input.data?.google_pay_payment_data as Record<string, any> | undefined;
+
+		try {
+			if (!paymentData || input.data?.next_step) {
+				return await this.authorizeFromCheckout(input);
+			}
+
+			const network = paymentData.paymentMethodData?.info?.cardNetwork;
+			if (network && !SUMUP_GOOGLE_PAY_ALLOWED_NETWORKS.includes(network)) {
+				return this.rejectPayment(
+					input,
+					SUMUP_ERROR_CODES.UNSUPPORTED_NETWORK,
+					`Card network ${network} is not supported`,
+					["google_pay_payment_data"]
+				);
+			}
+
+			const processData: SumUpPaymentProcessData = {
+				payment_type: "google_pay",
+				google_pay: {
+					apiVersion: paymentData.apiVersion,
+					apiVersionMinor: paymentData.apiVersionMinor,
+					paymentMethodData: paymentData.paymentMethodData,
+				},
+			};
+
+			const result = await this.processCheckoutPayment(input, processData, ["google_pay_payment_data"]);
+
+			if (isFinalUnpaidStatus(result.status)) {
+				return this.rejectPayment(
+					{ ...input, data: result.data },
+					SUMUP_ERROR_CODES.PAYMENT_DECLINED,
+					undefined,
+					["google_pay_payment_data"]
+				);
+			}
+
+			return result;
+		} catch (error) {
+			this.logger_.error("Failed to authorize SumUp Google Pay payment", error);
+
+			if (!paymentData) {
+				throw error;
+			}
+
+			if (this.isUnknownOutcomeError(error)) {
+				const { google_pay_payment_data, ...data } = input.data || {};
+				return await this.authorizeFromCheckout({ ...input, data });
+			}
+
+			return this.rejectPayment(
+				input,
+				error instanceof SumUpError ? error.code : SUMUP_ERROR_CODES.PAYMENT_FAILED,
+				undefined,
+				["google_pay_payment_data"]
+			);
+		}
+	}
 }
 
 export default SumUpGooglePayService;
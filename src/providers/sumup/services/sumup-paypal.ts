@@ -1,5 +1,14 @@
+import {
+	AuthorizePaymentInput,
+	AuthorizePaymentOutput,
+	InitiatePaymentInput,
+	InitiatePaymentOutput,
+} from "@medusajs/types";
+import { MedusaError } from "@medusajs/framework/utils";
 import SumUpBase from "../core/sumup-base";
-import { PaymentProviderKeys } from "../types";
+import { PaymentProviderKeys, SumUpPaymentProcessData } from "../types";
+
+type PersonalDetails = NonNullable<SumUpPaymentProcessData["personal_details"]>;
 
 class SumUpPayPalService extends SumUpBase {
 	static identifier = PaymentProviderKeys.SUMUP_PAYPAL;
@@ -10,6 +19,107 @@ class SumUpPayPalService extends SumUpBase {
 	get webhookUrl(): string {
 		return `${this.options_.medusaUrl}/hooks/payment/${PaymentProviderKeys.SUMUP_PAYPAL}_sumup`;
 	}
+
+	/**
+	 * Initiates a PayPal payment. The personal details PayPal requires are
+	 * collected and validated before the checkout is created.
+	 */
+	async initiatePayment(input: InitiatePaymentInput): Promise<InitiatePaymentOutput> {
+		const personalDetails = this.buildPersonalDetails(input);
+		this.validatePersonalDetails(personalDetails);
+
+		const result = await super.initiatePayment(input);
+
+		return {
+			...result,
+			data: {
+				...result.data,
+				personal_details: personalDetails,
+			},
+		};
+	}
+
+	/**
+	 * Authorizes a PayPal payment. The first call processes the checkout as
+	 * `paypal` and returns the PayPal redirect as `next_step`. Once the shopper
+	 * returns, authorization completes from the checkout status.
+	 */
+	async authorizePayment(input: AuthorizePaymentInput): Promise<AuthorizePaymentOutput> {
+		try {
+			if (input.data?.next_step || input.data?.payment_type === "paypal") {
+				return await this.authorizeFromCheckout(input);
+			}
+
+			const personalDetails = input.data?.personal_details as PersonalDetails | undefined;
+			this.validatePersonalDetails(personalDetails);
+
+			const result = await this.processCheckoutPayment(input, {
+				payment_type: "paypal",
+				personal_details: personalDetails,
+			});
+
+			const redirectUrl = (result.data?.next_step as { url?: string } | undefined)?.url;
+
+			if (!redirectUrl) {
+				return result;
+			}
+
+			return {
+				...result,
+				data: {
+					...result.data,
+					paypal_redirect_url: redirectUrl,
+				},
+			};
+		} catch (error) {
+			this.logger_.error("Failed to authorize SumUp PayPal payment", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Builds PayPal personal details from session data, falling back to the
+	 * Medusa customer and their billing address
+	 */
+	private buildPersonalDetails(input: InitiatePaymentInput): PersonalDetails {
+		const provided = (input.data?.personal_details || {}) as PersonalDetails;
+		const customer = input.context?.customer;
+		const billing = customer?.billing_address;
+
+		return {
+			email: provided.email || customer?.email || undefined,
+			first_name: provided.first_name || customer?.first_name || undefined,
+			last_name: provided.last_name || customer?.last_name || undefined,
+			tax_id: provided.tax_id,
+			address: {
+				line1: provided.address?.line1 || billing?.address_1 || undefined,
+				city: provided.address?.city || billing?.city || undefined,
+				postal_code: provided.address?.postal_code || billing?.postal_code || undefined,
+				state: provided.address?.state || billing?.province || undefined,
+				country: (provided.address?.country || billing?.country_code || undefined)?.toUpperCase(),
+			},
+		};
+	}
+
+	/**
+	 * Ensures the personal details PayPal requires are present
+	 * @throws {MedusaError} If any required field is missing
+	 */
+	private validatePersonalDetails(details?: PersonalDetails): void {
+		const missing = [
+			!details?.email && "email",
+			!details?.first_name && "first_name",
+			!details?.last_name && "last_name",
+			!details?.address?.country && "address.country",
+		].filter(Boolean);
+
+		if (missing.length) {
+			throw new MedusaError(
+				MedusaError.Types.INVALID_DATA,
+				`PayPal payments require the customer's ${missing.join(", ")}`
+			);
+		}
+	}
 }
 
 export default SumUpPayPalService;
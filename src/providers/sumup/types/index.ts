@@ -4,12 +4,27 @@
  * @property merchantCode - The SumUp merchant code (optional, if not provided, will be fetched from API)
  * @property redirectUrl - The URL to redirect to after payment completion
  * @property medusaUrl - The URL of the Medusa instance - defaults to http://localhost:9000
- * @property autoCapture - Whether to automatically capture payments - defaults to true
+ * @property autoCapture - Unsupported, SumUp captures payments as soon as they are paid - `false` is rejected on startup
  * @property description - The description that appears on the payment
  * @property debug - Whether to enable debug mode
  * @property environment - The environment to use (test or live) - defaults to test
  * @property host - Optional custom API host (for SDK initialization)
  * @property baseParams - Optional additional fetch parameters for SDK
+ * @property registerWebhook - Whether to check and register the provider's webhook with SumUp on startup - defaults to false
+ * @property webhookSecret - Secret used to verify the signature of incoming webhooks - unsigned webhooks are rejected when set
+ * @property verifyWebhookWithApi - Whether to re-fetch the checkout from SumUp and trust its status and amount over the webhook payload - always done without `webhookSecret`, defaults to false otherwise
+ * @property googlePayMerchantId - The Google Pay merchant id, required for Google Pay in live mode
+ * @property googlePayMerchantName - The merchant name shown on the Google Pay sheet
+ * @property requestTimeout - Milliseconds before a request to SumUp is aborted - defaults to 15000
+ * @property maxRetries - How often safe requests are retried after network errors, 429 and 5xx responses - defaults to 2
+ * @property retryBaseDelay - Milliseconds the exponential retry backoff starts from - defaults to 200
+ * @property retryMaxDelay - Longest wait between retries in milliseconds - defaults to 5000
+ * @property circuitBreakerThreshold - Consecutive failures after which SumUp isn't called anymore, 0 disables the breaker - defaults to 5
+ * @property circuitBreakerCooldown - Milliseconds before SumUp is called again after the breaker opened - defaults to 30000
+ * @property checkoutLifetime - Milliseconds a checkout can be paid for before SumUp expires it, and after which the reconciliation job re-checks its session - defaults to 3600000 (1 hour)
+ * @property paymentMethodsTtl - Milliseconds the payment methods available for an amount and currency are cached for - defaults to 60000
+ * @property merchantProfileTtl - Milliseconds the merchant profile is cached for - defaults to 3600000 (1 hour)
+ * @property cancelPolicy - What cancelling a captured payment does: `refund` returns the money to the shopper, `fail` rejects the cancellation - defaults to refund
  */
 export type ProviderOptions = {
 	apiKey: string;
@@ -22,6 +37,21 @@ export type ProviderOptions = {
 	environment?: "test" | "live";
 	host?: string;
 	baseParams?: Record<string, any>;
+	registerWebhook?: boolean;
+	webhookSecret?: string;
+	verifyWebhookWithApi?: boolean;
+	googlePayMerchantId?: string;
+	googlePayMerchantName?: string;
+	cancelPolicy?: "refund" | "fail";
+	merchantProfileTtl?: number;
+	paymentMethodsTtl?: number;
+	checkoutLifetime?: number;
+	requestTimeout?: number;
+	maxRetries?: number;
+	retryBaseDelay?: number;
+	retryMaxDelay?: number;
+	circuitBreakerThreshold?: number;
+	circuitBreakerCooldown?: number;
 };
 
 /**
@@ -42,6 +72,7 @@ export type SumUpCheckoutData = {
 		last_name?: string;
 	};
 	purpose?: "CHECKOUT" | "SETUP_RECURRING_PAYMENT";
+	valid_until?: string;
 };
 
 /**
@@ -63,6 +94,10 @@ export type SumUpCheckoutResponse = {
 	redirect_url?: string;
 	return_url?: string;
 	customer_id?: string;
+	valid_until?: string;
+	payment_instrument?: {
+		token: string;
+	};
 };
 
 /**
@@ -85,10 +120,129 @@ export type SumUpTransaction = {
 	internal_id: number;
 	payout_plan: string;
 	payout_type: string;
+	foreign_transaction_id?: string; // Checkout reference SumUp reports for checkout payments, verified against the checkout before use
+	type?: "PAYMENT" | "REFUND" | "CHARGE_BACK";
+	refunded_amount?: number; // Only reported by the transaction history
 	card?: {
 		last_4_digits: string;
 		type: string;
 	};
+	events?: SumUpTransactionEvent[];
+};
+
+/**
+ * Event of a SumUp transaction, such as a refund or payout
+ */
+export type SumUpTransactionEvent = {
+	id: number | string;
+	transaction_id?: string;
+	type: "PAYOUT" | "CHARGE_BACK" | "REFUND" | "PAYOUT_DEDUCTION" | string;
+	status: "PENDING" | "SCHEDULED" | "FAILED" | "REFUNDED" | "SUCCESSFUL" | "PAID_OUT" | string;
+	amount: number;
+	timestamp: string;
+};
+
+/**
+ * Refund recorded in the payment session's `refunds` ledger
+ */
+export type SumUpRefundRecord = {
+	transaction_id: string;
+	refund_id?: string;
+	amount: number;
+	currency: string;
+	status: "PENDING" | "SUCCESSFUL" | "FAILED";
+	created_at: string;
+};
+
+/**
+ * What SumUp knows about a payment, as shown to support staff
+ * @property status - The Medusa payment session status the checkout resolves to
+ * @property transactions - The checkout's transactions with card, auth code, entry mode and event history
+ */
+export type SumUpPaymentDetails = {
+	status: string;
+	checkout: SumUpCheckoutResponse;
+	transactions: SumUpTransaction[];
+	refunds: SumUpRefundRecord[];
+	settlement?: SumUpSettlement;
+};
+
+/**
+ * Line of a SumUp payout: a transaction paid out to the merchant, or a deduction from the payout
+ * @property id - Id of the payout the line belongs to
+ * @property amount - Amount paid out after fees, or deducted
+ */
+export type SumUpPayout = {
+	id: string;
+	transaction_code?: string;
+	amount: number;
+	fee: number;
+	currency: string;
+	date: string;
+	reference?: string;
+	status?: "SUCCESSFUL" | "FAILED";
+	type: "PAYOUT" | "CHARGE_BACK_DEDUCTION" | "REFUND_DEDUCTION" | "DD_RETURN_DEDUCTION" | "BALANCE_DEDUCTION";
+};
+
+/**
+ * Fees and payout of a payment, stored in the Medusa payment's `settlement` data
+ * @property net_amount - Amount paid out to the merchant, after fees and deductions
+ */
+export type SumUpSettlement = {
+	payout_id?: string;
+	payout_date?: string;
+	currency: string;
+	fee_amount: number;
+	net_amount: number;
+	payouts: SumUpPayout[];
+	imported_at: string;
+};
+
+/**
+ * SumUp transaction history query parameters
+ */
+export type SumUpTransactionListParams = {
+	transaction_code?: string;
+	order?: "ascending" | "descending";
+	limit?: number;
+	statuses?: Array<"SUCCESSFUL" | "CANCELLED" | "FAILED" | "REFUNDED" | "CHARGE_BACK">;
+	types?: Array<"PAYMENT" | "REFUND" | "CHARGE_BACK">;
+	changes_since?: string;
+	newest_time?: string;
+	newest_ref?: string;
+	oldest_time?: string;
+	oldest_ref?: string;
+};
+
+/**
+ * SumUp transaction history response
+ */
+export type SumUpTransactionHistory = {
+	items: SumUpTransaction[];
+	links?: Array<{
+		rel: string;
+		href: string;
+	}>;
+};
+
+/**
+ * SumUp merchant profile (flattened from the SDK account response)
+ */
+export type SumUpMerchant = {
+	merchant_code: string;
+	company_name?: string;
+	country?: string;
+	locale?: string;
+	default_currency?: string;
+	sandbox?: boolean;
+};
+
+/**
+ * Merchant profile as cached by the provider, including the payment methods enabled for the merchant
+ */
+export type SumUpMerchantProfile = SumUpMerchant & {
+	payment_methods: string[];
+	fetched_at: string;
 };
 
 /**
@@ -108,6 +262,12 @@ export type SumUpPaymentProcessData = {
 	};
 	token?: string; // For tokenized payments
 	customer_id?: string; // For saved customer payments
+	// Consent to charge the card later, required when processing a SETUP_RECURRING_PAYMENT checkout
+	mandate?: {
+		type: "recurrent";
+		user_agent: string;
+		user_ip?: string;
+	};
 	apple_pay?: {
 		token: any;
 	};
@@ -152,6 +312,43 @@ export type SumUpPaymentProcessResponse = {
 	currency: string;
 };
 
+/**
+ * Google Pay `PaymentDataRequest` for the SumUp gateway
+ */
+export type SumUpGooglePayPaymentDataRequest = {
+	apiVersion: number;
+	apiVersionMinor: number;
+	environment: "TEST" | "PRODUCTION";
+	allowedPaymentMethods: Array<{
+		type: "CARD";
+		parameters: {
+			allowedAuthMethods: string[];
+			allowedCardNetworks: string[];
+		};
+		tokenizationSpecification: {
+			type: "PAYMENT_GATEWAY";
+			parameters: {
+				gateway: string;
+				gatewayMerchantId: string;
+			};
+		};
+	}>;
+	merchantInfo: {
+		merchantId?: string;
+		merchantName?: string;
+	};
+	transactionInfo: {
+		totalPriceStatus: "FINAL";
+		totalPrice: string;
+		currencyCode: string;
+	};
+};
+
+/**
+ * Card networks accepted through Google Pay
+ */
+export const SUMUP_GOOGLE_PAY_ALLOWED_NETWORKS = ["AMEX", "MASTERCARD", "VISA"] as const;
+
 /**
  * SumUp refund data
  */
@@ -168,6 +365,29 @@ export type SumUpErrorResponse = {
 	param?: string;
 };
 
+/**
+ * User-safe error codes the storefront can branch on and localize. They are set as
+ * the `code` of errors thrown by the provider and in `error.code` of rejected sessions.
+ */
+export const SUMUP_ERROR_CODES = {
+	PAYMENT_DECLINED: "payment_declined",
+	PAYMENT_CANCELED: "payment_canceled",
+	AUTHENTICATION_REQUIRED: "authentication_required",
+	INVALID_CARD: "invalid_card",
+	UNSUPPORTED_NETWORK: "unsupported_network",
+	RECURRING_TOKEN_REVOKED: "recurring_token_revoked",
+	CHECKOUT_EXPIRED: "checkout_expired",
+	CHECKOUT_PROCESSED: "checkout_processed",
+	DUPLICATE_CHECKOUT: "duplicate_checkout",
+	DUPLICATE_CUSTOMER: "duplicate_customer",
+	INVALID_REQUEST: "invalid_request",
+	NOT_FOUND: "not_found",
+	PROVIDER_UNAVAILABLE: "provider_unavailable",
+	PAYMENT_FAILED: "payment_failed",
+} as const;
+
+export type SumUpErrorCode = typeof SUMUP_ERROR_CODES[keyof typeof SUMUP_ERROR_CODES];
+
 /**
  * SumUp webhook payload (compatible with SDK events)
  */
@@ -189,6 +409,43 @@ export type SumUpWebhookPayload = {
 	};
 };
 
+/**
+ * Payload SumUp posts to a checkout's `return_url` when the checkout's status changes.
+ * It only carries the checkout id.
+ */
+export type SumUpCheckoutCallbackPayload = {
+	event_type: "CHECKOUT_STATUS_CHANGED";
+	id: string;
+};
+
+/**
+ * SumUp webhook subscription
+ */
+export type SumUpWebhookSubscription = {
+	id: string;
+	url: string;
+	event_types: string[];
+	active?: boolean;
+};
+
+/**
+ * Header carrying the HMAC-SHA256 signature of a webhook payload
+ */
+export const SUMUP_WEBHOOK_SIGNATURE_HEADER = "x-payload-signature";
+
+/**
+ * Webhook event types the provider subscribes to
+ */
+export const SUMUP_WEBHOOK_EVENT_TYPES = [
+	"checkout_paid",
+	"checkout_failed",
+	"checkout_cancelled",
+	"checkout_expired",
+	"transaction_successful",
+	"transaction_failed",
+	"transaction_cancelled",
+] as const;
+
 /**
  * Payment provider keys for different SumUp payment methods
  */
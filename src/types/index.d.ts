@@ -34,8 +34,10 @@ declare namespace NodeJS {
 		SUMUP_MERCHANT_CODE?: string;
 		SUMUP_REDIRECT_URL?: string;
 		SUMUP_DESCRIPTION?: string;
-		SUMUP_AUTO_CAPTURE?: string;
 		SUMUP_ENVIRONMENT?: "test" | "live";
+		SUMUP_REGISTER_WEBHOOK?: string;
+		SUMUP_WEBHOOK_SECRET?: string;
+		GOOGLE_PAY_MERCHANT_ID?: string;
 		MEDUSA_BACKEND_URL?: string;
 	}
 }